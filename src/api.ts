@@ -0,0 +1,119 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import { CodeExtractor } from "./services/CodeExtractor";
+import { LanguageRegistry } from "./services/LanguageRegistry";
+import { WorkspaceCache } from "./services/WorkspaceCache";
+import { DependencyCollector } from "./services/DependencyCollector";
+import { OutputFormat, OutputFormatter } from "./services/OutputFormatter";
+import { RedactionFinding, SecretRedactor } from "./services/SecretRedactor";
+import { loadWorkspaceSettings, NodeHost, Settings } from "./services/NodeHost";
+import { outlineDependencies } from "./utils/outline";
+import { estimateTokens } from "./utils/tokenEstimator";
+import { BundleFile, DependencyClosure, Logger } from "./types";
+
+export { BundleFile, DependencyClosure, OutputFormat, Settings };
+
+export interface BundleOptions {
+  // Imports are resolved against this root; the current directory by default
+  root?: string;
+  // Import levels to follow; every level by default
+  depth?: number;
+  // Overrides `pbcode.output.format`
+  format?: OutputFormat;
+  // Copies dependencies as signatures only
+  outline?: boolean;
+  // `pbcode.*` settings, applied over the root's .vscode/settings.json
+  settings?: Settings;
+  // Receives files that could not be read or resolved
+  log?: Logger;
+  // Receives each step of import resolution
+  trace?: Logger;
+}
+
+export interface Bundle {
+  text: string;
+  files: BundleFile[];
+  tokens: number;
+  redactions: RedactionFinding[];
+}
+
+async function createHost(options: BundleOptions): Promise<NodeHost> {
+  const root = path.resolve(options.root ?? process.cwd());
+  return new NodeHost(
+    root,
+    {
+      ...(await loadWorkspaceSettings(root)),
+      ...options.settings,
+    },
+    options.trace
+  );
+}
+
+async function collectWith(
+  languages: LanguageRegistry,
+  cache: WorkspaceCache,
+  entries: string[],
+  options: BundleOptions
+): Promise<DependencyClosure> {
+  const collector = new DependencyCollector(
+    languages,
+    cache,
+    options.log ?? { appendLine: () => undefined }
+  );
+
+  // Entry files are relative to the working directory, like any CLI argument
+  const rootFiles = await Promise.all(
+    entries.map(async (entry) => {
+      const fileName = path.resolve(entry);
+      const content = await fs.readFile(fileName, "utf-8");
+      return { fileName, getText: () => content };
+    })
+  );
+  return collector.collectMany(
+    rootFiles,
+    options.depth ?? Number.POSITIVE_INFINITY
+  );
+}
+
+// The entry files whole, with every entity they use from their imports
+export async function collectBundle(
+  entries: string[],
+  options: BundleOptions = {}
+): Promise<DependencyClosure> {
+  const cache = new WorkspaceCache(await createHost(options));
+  return collectWith(
+    new LanguageRegistry(new CodeExtractor(), cache),
+    cache,
+    entries,
+    options
+  );
+}
+
+// The bundle as the extension would copy it, secrets redacted
+export async function createBundle(
+  entries: string[],
+  options: BundleOptions = {}
+): Promise<Bundle> {
+  const host = await createHost(options);
+  const config = host.getConfig();
+  const cache = new WorkspaceCache(host);
+  const languages = new LanguageRegistry(new CodeExtractor(), cache);
+  const { files } = await collectWith(languages, cache, entries, options);
+
+  const formatter = new OutputFormatter({
+    ...config.output,
+    format: options.format ?? config.output.format,
+  });
+  const redactor = new SecretRedactor(config.redaction, (pattern, error) =>
+    options.log?.appendLine(
+      `Ignoring invalid redaction pattern ${pattern}: ${error}`
+    )
+  );
+  const { text, findings } = redactor.redact(
+    formatter.format(
+      options.outline ? outlineDependencies(files, languages) : files
+    )
+  );
+
+  return { text, files, tokens: estimateTokens(text), redactions: findings };
+}
@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+import { parseArgs } from "util";
+import { createBundle, OutputFormat } from "./api";
+import { summarizeFindings } from "./services/SecretRedactor";
+import { formatTokenCount } from "./utils/tokenEstimator";
+
+const USAGE = `Usage: pbcode bundle <file...> [options]
+
+Writes the files, with the code they use from their imports, to stdout.
+
+Options:
+  --depth <n>      Import levels to follow (default: all)
+  --format <name>  xml, md, json or custom (default: pbcode.output.format)
+  --root <dir>     Workspace root imports resolve against (default: .)
+  --outline        Copy dependencies as signatures only
+  --verbose        Log import resolution to stderr
+  -h, --help       Show this help`;
+
+const FORMATS: Record<string, OutputFormat> = {
+  xml: "xml",
+  md: "markdown",
+  markdown: "markdown",
+  json: "json",
+  custom: "custom",
+};
+
+function writeError(message: string): void {
+  process.stderr.write(`pbcode: ${message}\n`);
+}
+
+async function main(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      depth: { type: "string" },
+      format: { type: "string" },
+      root: { type: "string" },
+      outline: { type: "boolean" },
+      verbose: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+  const [command, ...entries] = positionals;
+  if (command !== "bundle" || entries.length === 0) {
+    process.stderr.write(`${USAGE}\n`);
+    return 2;
+  }
+
+  const depth = values.depth === undefined ? undefined : Number(values.depth);
+  if (depth !== undefined && !(Number.isInteger(depth) && depth > 0)) {
+    writeError(`--depth must be a positive integer, got ${values.depth}`);
+    return 2;
+  }
+  const format =
+    values.format === undefined ? undefined : FORMATS[values.format];
+  if (values.format !== undefined && !format) {
+    writeError(`unknown format ${values.format}`);
+    return 2;
+  }
+
+  const bundle = await createBundle(entries, {
+    root: values.root,
+    depth,
+    format,
+    outline: values.outline,
+    log: { appendLine: writeError },
+    trace: values.verbose ? { appendLine: writeError } : undefined,
+  });
+  process.stdout.write(`${bundle.text}\n`);
+
+  if (bundle.redactions.length > 0) {
+    writeError(
+      `redacted ${
+        bundle.redactions.length
+      } possible secrets: ${summarizeFindings(bundle.redactions)}`
+    );
+  }
+  if (values.verbose) {
+    writeError(
+      `${bundle.files.length} files, ~${formatTokenCount(bundle.tokens)} tokens`
+    );
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    writeError(error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+  }
+);
@@ -1,13 +1,62 @@
 import * as vscode from "vscode";
 import { CodeExtractor } from "./services/CodeExtractor";
-import { parseImports } from "./utils/importParser";
-import { resolveImportPaths } from "./utils/pathResolution";
+import { LanguageRegistry } from "./services/LanguageRegistry";
+import { TypeScriptProvider } from "./services/TypeScriptProvider";
+import { WorkspaceCache } from "./services/WorkspaceCache";
+import { getConfig, VSCodeHost, watchWorkspace } from "./services/VSCodeHost";
 import { QuickPickService } from "./services/QuickPickService";
-import { ImportInfo } from "./types";
+import { DependencyCollector } from "./services/DependencyCollector";
+import { BundleTrimmer } from "./services/BundleTrimmer";
+import { formatDiagnostic, OutputFormatter } from "./services/OutputFormatter";
+import { BundlePreviewProvider } from "./services/BundlePreviewProvider";
+import { ReverseDependencyFinder } from "./services/ReverseDependencyFinder";
+import { RelatedTestFinder } from "./services/RelatedTestFinder";
+import { ResponseApplier } from "./services/ResponseApplier";
+import {
+  BundleHistory,
+  HistoryEntry,
+  HistoryMode,
+} from "./services/BundleHistory";
+import { SecretRedactor, summarizeFindings } from "./services/SecretRedactor";
+import {
+  BundleFile,
+  ExtractedContent,
+  ImportInfo,
+  LanguageProvider,
+} from "./types";
+import { CopySettings, PBCodeConfig } from "./utils/config";
+import {
+  FileSelection,
+  findGlobFiles,
+  gatherFiles,
+} from "./utils/fileSelection";
+import { estimateTokens, formatTokenCount } from "./utils/tokenEstimator";
+import { outlineDependencies } from "./utils/outline";
+import { formatBudgetShare } from "./utils/tokenBudget";
+import { attachDiagnostics } from "./utils/diagnostics";
+import {
+  loadWorkspacePrompts,
+  PromptValues,
+  renderPrompt,
+} from "./utils/promptTemplates";
+import {
+  branchChanges,
+  ChangeSet,
+  findRepoRoot,
+  listBranches,
+  readChanges,
+  uncommittedChanges,
+} from "./utils/git";
 
 export async function activate(context: vscode.ExtensionContext) {
   const extractor = new CodeExtractor();
   const outputChannel = vscode.window.createOutputChannel("PBCode");
+  const cache = new WorkspaceCache(new VSCodeHost(outputChannel));
+  const languages = new LanguageRegistry(extractor, cache);
+  const preview = new BundlePreviewProvider(languages, cache, outputChannel);
+  const testFinder = new RelatedTestFinder(languages, cache, outputChannel);
+  const responseApplier = new ResponseApplier(languages, outputChannel);
+  const history = new BundleHistory(context.workspaceState, languages, cache);
 
   const copyCurrentFileCommand = vscode.commands.registerCommand(
     "pbcode.copyCurrentFile",
@@ -18,65 +67,189 @@ export async function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      // Calculate total lines for all related files
+      // Calculate total size for all related files
       const mainFile = editor.document;
+      const config = getConfig(mainFile.uri);
+      const formatter = new OutputFormatter(config.output);
       const currentFileLines = mainFile.lineCount;
-      const imports = parseImports(mainFile.getText());
-      const resolvedImports = await resolveImportPaths(
-        imports,
-        mainFile.fileName
-      );
+      const currentFileTokens = estimateTokens(mainFile.getText());
+      const provider = languages.forDocument(mainFile);
+      const seed = provider && findSeed(editor, provider);
 
-      let totalRelatedLines = currentFileLines;
-      for (const importInfo of resolvedImports) {
-        try {
-          const doc = await vscode.workspace.openTextDocument(
-            vscode.Uri.file(importInfo.resolvedPath)
-          );
-          totalRelatedLines += doc.lineCount;
-        } catch (error) {
-          console.error(
-            `Error loading file ${importInfo.resolvedPath}:`,
-            error
-          );
+      // A default mode skips the options, unless it needs a missing symbol
+      let mode =
+        config.copy.defaultMode === "ask" ||
+        (config.copy.defaultMode === "symbol" && !seed)
+          ? undefined
+          : config.copy.defaultMode;
+      const testOptions = {
+        ...config.tests,
+        exclude: config.resolution.exclude,
+      };
+      let relatedTests: string[] | undefined;
+      if (mode === "tests") {
+        relatedTests = await withCancellableProgress(
+          "PBCode: Finding related tests",
+          (token) => testFinder.findTests(mainFile, testOptions, token)
+        );
+        if (!relatedTests) {
+          return;
+        }
+        // With no tests to add, ask as if there were no default
+        if (relatedTests.length === 0) {
+          mode = undefined;
         }
       }
+      if (!mode) {
+        const found = relatedTests;
+        const related = await withCancellableProgress(
+          "PBCode: Resolving imports",
+          async (token) => ({
+            ...(await measureImports(mainFile, provider, cache)),
+            tests:
+              found ??
+              (await testFinder.findTests(mainFile, testOptions, token)),
+          })
+        );
+        if (!related) {
+          return;
+        }
+        relatedTests = related.tests;
 
-      const selectedOption = await QuickPickService.showCopyOptions(
-        currentFileLines,
-        totalRelatedLines,
-        resolvedImports.length
-      );
-
-      if (!selectedOption) return;
+        const selectedOption = await QuickPickService.showCopyOptions(
+          { lines: currentFileLines, tokens: currentFileTokens },
+          { lines: related.lines, tokens: related.tokens },
+          related.imports,
+          config.budget,
+          config.sizeLimits,
+          seed &&
+            (seed.kind === "snippet"
+              ? `Selection (${
+                  seed.location.end - seed.location.start + 1
+                } lines)`
+              : `Symbol ${seed.name}`),
+          related.tests
+        );
+        if (!selectedOption) return;
+        mode = selectedOption.value;
+      }
 
       try {
-        switch (selectedOption.value) {
-          case "current":
-            const mainContent = mainFile.getText().trim();
-            await vscode.env.clipboard.writeText(
-              addFileDelimiters(mainFile.fileName, mainContent)
+        switch (mode) {
+          case "current": {
+            const files = [
+              {
+                path: mainFile.fileName,
+                depth: 0,
+                content: mainFile.getText(),
+                entities: [],
+              },
+            ];
+            const content = redactBundle(
+              formatter.format(
+                attachDiagnostics(files, config.output.diagnostics)
+              ),
+              mainFile.uri,
+              outputChannel
             );
+            if (
+              !(await copyToClipboard(
+                content,
+                mainFile.uri,
+                languages,
+                outputChannel,
+                {
+                  history,
+                  mode: "current",
+                  rootFiles: [mainFile.fileName],
+                  files,
+                }
+              ))
+            ) {
+              break;
+            }
             vscode.window.showInformationMessage(
-              `Current file copied (${currentFileLines} lines)`
+              `Current file copied (${currentFileLines} lines, ~${formatTokenCount(
+                currentFileTokens
+              )} tokens)`
+            );
+            break;
+          }
+
+          case "symbol":
+            await copySeedWithDependencies(
+              mainFile,
+              seed!,
+              languages,
+              cache,
+              outputChannel,
+              history,
+              config
             );
             break;
 
           case "all":
             await copyAllFiles(
               mainFile,
-              resolvedImports,
-              extractor,
-              outputChannel
+              languages,
+              cache,
+              outputChannel,
+              history,
+              config
+            );
+            break;
+
+          case "auto-fit":
+            await copyAutoFitFiles(
+              mainFile,
+              languages,
+              cache,
+              outputChannel,
+              history,
+              config
+            );
+            break;
+
+          case "preview":
+            await previewBundle(
+              mainFile,
+              languages,
+              cache,
+              outputChannel,
+              preview,
+              config
             );
             break;
 
-          case "selected":
-            await copySelectedFiles(
+          case "tests":
+            await copyWithTests(
+              mainFile,
+              relatedTests!,
+              languages,
+              cache,
+              outputChannel,
+              history,
+              config
+            );
+            break;
+
+          case "callers":
+            // Usages are found through the TypeScript syntax tree
+            if (!(provider instanceof TypeScriptProvider)) {
+              vscode.window.showErrorMessage(
+                "Finding callers is only supported for TypeScript and JavaScript files"
+              );
+              break;
+            }
+            await copyCallers(
               mainFile,
-              resolvedImports,
+              seed?.kind === "snippet" ? undefined : seed?.name,
               extractor,
-              outputChannel
+              languages,
+              cache,
+              outputChannel,
+              history,
+              config
             );
             break;
         }
@@ -88,132 +261,1136 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   );
 
-  context.subscriptions.push(copyCurrentFileCommand);
-}
+  const copyPreviewCommand = vscode.commands.registerCommand(
+    "pbcode.preview.copy",
+    async () => {
+      const session = preview.session;
+      if (!session) {
+        vscode.window.showErrorMessage("No bundle is being previewed");
+        return;
+      }
+      const files = preview.getBundle();
+      if (files.length === 0) {
+        vscode.window.showWarningMessage("Nothing is checked in the preview");
+        return;
+      }
 
-function addFileDelimiters(filePath: string, content: string): string {
-  return `<file path="${filePath}">\n${content}\n</file>\n`;
-}
+      // Output settings changed since the preview opened apply to the copy
+      const { output } = getConfig(session.mainFile.uri);
+      const finalTrimmedContent = redactBundle(
+        new OutputFormatter(output).format(
+          attachDiagnostics(files, output.diagnostics)
+        ),
+        session.mainFile.uri,
+        outputChannel
+      );
+      const entityCount = files.reduce(
+        (count, file) => count + file.entities.length,
+        0
+      );
 
-async function copyAllFiles(
-  mainFile: vscode.TextDocument,
-  resolvedImports: ImportInfo[],
-  extractor: CodeExtractor,
-  outputChannel: vscode.OutputChannel
-) {
-  const processedEntities = new Map<string, string>();
+      if (
+        !(await copyToClipboard(
+          finalTrimmedContent,
+          session.mainFile.uri,
+          languages,
+          outputChannel,
+          {
+            history,
+            mode: "preview",
+            rootFiles: [session.mainFile.fileName],
+            files,
+          }
+        ))
+      ) {
+        return;
+      }
+      vscode.window.showInformationMessage(
+        `Code copied with ${entityCount} entities from ${files.length} files (${
+          finalTrimmedContent.split("\n").length
+        } lines, ~${formatTokenCount(
+          estimateTokens(finalTrimmedContent)
+        )} tokens)`
+      );
+    }
+  );
 
-  let finalContent = addFileDelimiters(
-    mainFile.fileName,
-    mainFile.getText().trim()
+  const expandEntityCommand = vscode.commands.registerCommand(
+    "pbcode.preview.expandEntity",
+    async (node) => {
+      try {
+        await preview.expandEntity(node);
+      } catch (error) {
+        outputChannel.appendLine("Error: " + error);
+        vscode.window.showErrorMessage(`Error: ${error}`);
+      }
+    }
   );
 
-  for (const importInfo of resolvedImports) {
-    try {
-      const importedContent = await vscode.workspace.openTextDocument(
-        vscode.Uri.file(importInfo.resolvedPath)
-      );
+  const copyFilesCommand = vscode.commands.registerCommand(
+    "pbcode.copyFiles",
+    async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+      // The Explorer passes the clicked item and the whole selection
+      const targets =
+        uris && uris.length > 0
+          ? uris
+          : uri
+          ? [uri]
+          : vscode.window.activeTextEditor
+          ? [vscode.window.activeTextEditor.document.uri]
+          : [];
+      if (targets.length === 0) {
+        vscode.window.showErrorMessage("Select files or folders to copy");
+        return;
+      }
 
-      const extractedEntities = await extractor.extractImportedEntities(
-        importedContent.getText(),
-        importInfo
-      );
+      try {
+        await copyFileSelection(
+          await gatherFiles(targets),
+          languages,
+          cache,
+          outputChannel,
+          history
+        );
+      } catch (error) {
+        outputChannel.appendLine("Error: " + error);
+        outputChannel.show();
+        vscode.window.showErrorMessage(`Error: ${error}`);
+      }
+    }
+  );
 
-      if (extractedEntities.length > 0) {
-        let newContent = "";
-        for (const entity of extractedEntities) {
-          const entityKey = `${importInfo.resolvedPath}:${entity.name}`;
+  const copyGlobCommand = vscode.commands.registerCommand(
+    "pbcode.copyGlob",
+    async () => {
+      const pattern = await vscode.window.showInputBox({
+        title: "PBCode Copy Files Matching Glob",
+        prompt: "Workspace-relative glob pattern",
+        placeHolder: "src/features/checkout/**/*.{ts,tsx}",
+      });
+      if (!pattern) {
+        return;
+      }
 
-          if (!processedEntities.has(entityKey)) {
-            newContent += entity.content + "\n";
-            processedEntities.set(entityKey, entity.content);
-          }
-        }
+      try {
+        await copyFileSelection(
+          await findGlobFiles(pattern),
+          languages,
+          cache,
+          outputChannel,
+          history
+        );
+      } catch (error) {
+        outputChannel.appendLine("Error: " + error);
+        outputChannel.show();
+        vscode.window.showErrorMessage(`Error: ${error}`);
+      }
+    }
+  );
 
-        if (newContent.trim()) {
-          const formattedContent = addFileDelimiters(
-            importInfo.resolvedPath,
-            newContent.trim()
-          );
-          finalContent += formattedContent;
-        }
+  const copyChangesCommand = vscode.commands.registerCommand(
+    "pbcode.copyChanges",
+    async () => {
+      try {
+        await copyChanges(languages, cache, outputChannel, history);
+      } catch (error) {
+        outputChannel.appendLine("Error: " + error);
+        outputChannel.show();
+        vscode.window.showErrorMessage(`Error: ${error}`);
+      }
+    }
+  );
+
+  const applyResponseCommand = vscode.commands.registerCommand(
+    "pbcode.applyResponse",
+    async () => {
+      try {
+        await applyResponse(responseApplier, outputChannel);
+      } catch (error) {
+        outputChannel.appendLine("Error: " + error);
+        outputChannel.show();
+        vscode.window.showErrorMessage(`Error: ${error}`);
+      }
+    }
+  );
+
+  const showHistoryCommand = vscode.commands.registerCommand(
+    "pbcode.showHistory",
+    async () => {
+      try {
+        await copyFromHistory(history, outputChannel);
+      } catch (error) {
+        outputChannel.appendLine("Error: " + error);
+        outputChannel.show();
+        vscode.window.showErrorMessage(`Error: ${error}`);
       }
-    } catch (error) {
+    }
+  );
+
+  const clearHistoryCommand = vscode.commands.registerCommand(
+    "pbcode.clearHistory",
+    () => history.clear()
+  );
+
+  const toggleOutlineCommand = vscode.commands.registerCommand(
+    "pbcode.preview.toggleOutline",
+    (node) => preview.toggleOutline(node)
+  );
+
+  const clearPreviewCommand = vscode.commands.registerCommand(
+    "pbcode.preview.clear",
+    () => preview.clear()
+  );
+
+  context.subscriptions.push(
+    watchWorkspace(cache),
+    copyCurrentFileCommand,
+    copyFilesCommand,
+    copyGlobCommand,
+    copyChangesCommand,
+    applyResponseCommand,
+    showHistoryCommand,
+    clearHistoryCommand,
+    vscode.workspace.registerTextDocumentContentProvider(
+      ResponseApplier.scheme,
+      responseApplier
+    ),
+    preview.register(),
+    copyPreviewCommand,
+    expandEntityCommand,
+    toggleOutlineCommand,
+    clearPreviewCommand
+  );
+}
+
+// Replaces likely secrets before anything reaches the clipboard
+function redactBundle(
+  bundle: string,
+  scope: vscode.Uri | undefined,
+  outputChannel: vscode.OutputChannel
+): string {
+  const redactor = new SecretRedactor(
+    getConfig(scope).redaction,
+    (pattern, error) =>
       outputChannel.appendLine(
-        `Error processing import ${importInfo.source}: ${error}`
+        `Ignoring invalid redaction pattern ${pattern}: ${error}`
+      )
+  );
+  const { text, findings } = redactor.redact(bundle);
+
+  if (findings.length > 0) {
+    outputChannel.appendLine(
+      `Redacted ${findings.length} possible secrets: ${summarizeFindings(
+        findings
+      )}`
+    );
+    for (const finding of findings) {
+      outputChannel.appendLine(`  ${finding.kind} on line ${finding.line}`);
+    }
+  }
+  return text;
+}
+
+// Asks before copying a bundle larger than `pbcode.maxBundleTokens`
+async function confirmBundleSize(
+  bundle: string,
+  settings: CopySettings
+): Promise<boolean> {
+  const tokens = estimateTokens(bundle);
+  if (settings.maxBundleTokens === 0 || tokens <= settings.maxBundleTokens) {
+    return true;
+  }
+  const choice = await vscode.window.showWarningMessage(
+    `The bundle is ~${formatTokenCount(
+      tokens
+    )} tokens, over the ${formatTokenCount(
+      settings.maxBundleTokens
+    )} token limit`,
+    { modal: true },
+    "Copy Anyway"
+  );
+  return choice === "Copy Anyway";
+}
+
+// The placeholder values a prompt template is rendered with, taken from the
+// active editor
+function promptValues(
+  bundle: string,
+  languages: LanguageRegistry,
+  outputChannel: vscode.OutputChannel
+): PromptValues {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    return {
+      bundle,
+      activeFile: "",
+      selection: "",
+      symbol: "",
+      diagnostics: "",
+    };
+  }
+  const { document, selection } = editor;
+  const provider = languages.forDocument(document);
+  const seed = provider && findSeed(editor, provider);
+  const [{ diagnostics = [] }] = attachDiagnostics(
+    [{ path: document.fileName, depth: 0, entities: [] }],
+    "section"
+  );
+
+  return {
+    bundle,
+    activeFile: vscode.workspace.asRelativePath(document.uri, false),
+    selection: selection.isEmpty
+      ? ""
+      : redactBundle(document.getText(selection), document.uri, outputChannel),
+    symbol: seed && seed.kind !== "snippet" ? seed.name : "",
+    diagnostics: diagnostics.map(formatDiagnostic).join("\n"),
+  };
+}
+
+// A copy to add to the bundle history
+interface CopyRecord {
+  history: BundleHistory;
+  mode: HistoryMode;
+  // The files the bundle was built from, whatever of them it holds
+  rootFiles: string[];
+  // Before outlining, so later code is compared with the full entities
+  files: BundleFile[];
+}
+
+// Copies the bundle, wrapped in a prompt template when the user picks one.
+// Resolves to false when nothing was copied.
+async function copyToClipboard(
+  bundle: string,
+  scope: vscode.Uri | undefined,
+  languages: LanguageRegistry,
+  outputChannel: vscode.OutputChannel,
+  record?: CopyRecord
+): Promise<boolean> {
+  const config = getConfig(scope);
+  const folder = scope && vscode.workspace.getWorkspaceFolder(scope);
+  const templates = [
+    ...config.promptTemplates,
+    ...(folder ? await loadWorkspacePrompts(folder.uri.fsPath) : []),
+  ];
+
+  let text = bundle;
+  if (templates.length > 0) {
+    const selected = await QuickPickService.showPromptTemplatePicker(templates);
+    if (!selected) {
+      return false;
+    }
+    if (selected.template) {
+      // The bundle is already redacted, the selection and symbol are not
+      text = redactBundle(
+        renderPrompt(
+          selected.template.template,
+          promptValues(bundle, languages, outputChannel)
+        ),
+        scope,
+        outputChannel
       );
     }
   }
 
-  const finalTrimmedContent = finalContent.trim();
+  if (!(await confirmBundleSize(text, config.copy))) {
+    return false;
+  }
+  await vscode.env.clipboard.writeText(text);
+  if (record) {
+    await record.history.record(
+      record.mode,
+      record.rootFiles,
+      record.files,
+      text,
+      config.history.size
+    );
+  }
+  return true;
+}
+
+// Runs a long task behind a cancellable notification. Resolves to undefined
+// when cancelled, without waiting for the task to notice.
+function withCancellableProgress<T>(
+  title: string,
+  task: (token: vscode.CancellationToken) => Promise<T>
+): Thenable<T | undefined> {
+  return vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title,
+      cancellable: true,
+    },
+    (_progress, token) =>
+      new Promise<T | undefined>((resolve, reject) => {
+        token.onCancellationRequested(() => resolve(undefined));
+        task(token).then(resolve, reject);
+      })
+  );
+}
+
+// The file's resolved imports, with the lines and tokens of the file plus
+// every file they point to
+async function measureImports(
+  mainFile: vscode.TextDocument,
+  provider: LanguageProvider | undefined,
+  cache: WorkspaceCache
+): Promise<{ imports: ImportInfo[]; lines: number; tokens: number }> {
+  const imports = provider
+    ? await provider.resolveImports(
+        provider.parseImports(mainFile.getText(), mainFile.fileName),
+        mainFile.fileName
+      )
+    : [];
+
+  const relatedPaths = Array.from(
+    new Set(imports.map((importInfo) => importInfo.resolvedPath))
+  );
+  const contents = await Promise.all(
+    relatedPaths.map((relatedPath) =>
+      cache.readSource(relatedPath).catch((error) => {
+        console.error(`Error loading file ${relatedPath}:`, error);
+        return undefined;
+      })
+    )
+  );
+
+  let lines = mainFile.lineCount;
+  let tokens = estimateTokens(mainFile.getText());
+  for (const content of contents) {
+    if (content !== undefined) {
+      lines += content.split("\n").length;
+      tokens += estimateTokens(content);
+    }
+  }
+  return { imports, lines, tokens };
+}
+
+// The current selection, or else the top-level declaration under the cursor
+function findSeed(
+  editor: vscode.TextEditor,
+  provider: LanguageProvider
+): ExtractedContent | undefined {
+  const document = editor.document;
+  const selection = editor.selection;
+
+  if (!selection.isEmpty) {
+    return provider.extractSnippet(document.getText(), document.fileName, {
+      startOffset: document.offsetAt(selection.start),
+      endOffset: document.offsetAt(selection.end),
+      startLine: selection.start.line,
+      endLine: selection.end.line,
+    });
+  }
+
+  const line = selection.active.line;
+  return provider
+    .extractDeclarations(document.getText(), document.fileName)
+    .find(
+      (declaration) =>
+        declaration.location.start <= line && line <= declaration.location.end
+    );
+}
+
+async function copySeedWithDependencies(
+  mainFile: vscode.TextDocument,
+  seed: ExtractedContent,
+  languages: LanguageRegistry,
+  cache: WorkspaceCache,
+  outputChannel: vscode.OutputChannel,
+  history: BundleHistory,
+  config: PBCodeConfig
+) {
+  const maxDepth = await QuickPickService.showDepthPicker(config.copy.maxDepth);
+  if (maxDepth === undefined) {
+    return;
+  }
+  const outline = await QuickPickService.showDetailPicker();
+  if (outline === undefined) {
+    return;
+  }
+
+  const collector = new DependencyCollector(languages, cache, outputChannel);
+  const closure = await withCancellableProgress(
+    "PBCode: Collecting dependencies",
+    (token) => collector.collectFromSeed(mainFile, seed, maxDepth, token)
+  );
+  if (!closure) {
+    return;
+  }
+  const { files, processedEntities } = closure;
+
+  const finalTrimmedContent = redactBundle(
+    new OutputFormatter(config.output).format(
+      attachDiagnostics(
+        outline ? outlineDependencies(files, languages) : files,
+        config.output.diagnostics
+      )
+    ),
+    mainFile.uri,
+    outputChannel
+  );
+  const finalLineCount = finalTrimmedContent.split("\n").length;
+  const finalTokenCount = estimateTokens(finalTrimmedContent);
+
+  if (
+    !(await copyToClipboard(
+      finalTrimmedContent,
+      mainFile.uri,
+      languages,
+      outputChannel,
+      { history, mode: "symbol", rootFiles: [mainFile.fileName], files }
+    ))
+  ) {
+    return;
+  }
+  vscode.window.showInformationMessage(
+    `${seed.kind === "snippet" ? "Selection" : seed.name} copied with ${
+      processedEntities.size - 1
+    } dependent entities from ${
+      files.length
+    } files (${finalLineCount} lines, ~${formatTokenCount(
+      finalTokenCount
+    )} tokens)`
+  );
+}
+
+async function copyAllFiles(
+  mainFile: vscode.TextDocument,
+  languages: LanguageRegistry,
+  cache: WorkspaceCache,
+  outputChannel: vscode.OutputChannel,
+  history: BundleHistory,
+  config: PBCodeConfig
+) {
+  const maxDepth = await QuickPickService.showDepthPicker(config.copy.maxDepth);
+  if (maxDepth === undefined) {
+    return;
+  }
+  const outline = await QuickPickService.showDetailPicker();
+  if (outline === undefined) {
+    return;
+  }
+
+  const collector = new DependencyCollector(languages, cache, outputChannel);
+  const closure = await withCancellableProgress(
+    "PBCode: Collecting dependencies",
+    (token) => collector.collect(mainFile, maxDepth, token)
+  );
+  if (!closure) {
+    return;
+  }
+  const { files, processedEntities } = closure;
+
+  const finalTrimmedContent = redactBundle(
+    new OutputFormatter(config.output).format(
+      attachDiagnostics(
+        outline ? outlineDependencies(files, languages) : files,
+        config.output.diagnostics
+      )
+    ),
+    mainFile.uri,
+    outputChannel
+  );
   // Get the exact final line count
   const finalLineCount = finalTrimmedContent.split("\n").length;
+  const finalTokenCount = estimateTokens(finalTrimmedContent);
 
-  await vscode.env.clipboard.writeText(finalTrimmedContent);
+  const reachedDepth = Math.max(...files.map((file) => file.depth));
+
+  if (
+    !(await copyToClipboard(
+      finalTrimmedContent,
+      mainFile.uri,
+      languages,
+      outputChannel,
+      { history, mode: "all", rootFiles: [mainFile.fileName], files }
+    ))
+  ) {
+    return;
+  }
   vscode.window.showInformationMessage(
     `Code copied with ${processedEntities.size} entities from ${
-      new Set(
-        Array.from(processedEntities.keys()).map((key) => key.split(":")[0])
-      ).size
-    } files (${finalLineCount} lines)`
+      files.length - 1
+    } files, ${reachedDepth} levels deep (${finalLineCount} lines, ~${formatTokenCount(
+      finalTokenCount
+    )} tokens)`
   );
 }
 
-async function copySelectedFiles(
+// The current file and its related tests whole, with what they use from
+// their imports
+async function copyWithTests(
   mainFile: vscode.TextDocument,
-  resolvedImports: any[],
-  extractor: CodeExtractor,
-  outputChannel: vscode.OutputChannel
+  tests: string[],
+  languages: LanguageRegistry,
+  cache: WorkspaceCache,
+  outputChannel: vscode.OutputChannel,
+  history: BundleHistory,
+  config: PBCodeConfig
 ) {
-  const selectedFiles = await QuickPickService.showFileSelector(
-    mainFile,
-    resolvedImports
+  const maxDepth = await QuickPickService.showDepthPicker(config.copy.maxDepth);
+  if (maxDepth === undefined) {
+    return;
+  }
+  const outline = await QuickPickService.showDetailPicker();
+  if (outline === undefined) {
+    return;
+  }
+
+  const testFiles = await Promise.all(
+    tests.map((test) =>
+      vscode.workspace.openTextDocument(vscode.Uri.file(test))
+    )
+  );
+  const collector = new DependencyCollector(languages, cache, outputChannel);
+  const closure = await withCancellableProgress(
+    "PBCode: Collecting dependencies",
+    (token) => collector.collectMany([mainFile, ...testFiles], maxDepth, token)
   );
-  if (!selectedFiles || selectedFiles.length === 0) return;
+  if (!closure) {
+    return;
+  }
+  const { files, processedEntities } = closure;
 
-  let finalContent = "";
-  const processedEntities = new Map<string, string>();
+  // Outlining only touches dependencies, so the assertions stay whole
+  const finalTrimmedContent = redactBundle(
+    new OutputFormatter(config.output).format(
+      attachDiagnostics(
+        outline ? outlineDependencies(files, languages) : files,
+        config.output.diagnostics
+      )
+    ),
+    mainFile.uri,
+    outputChannel
+  );
+  const finalLineCount = finalTrimmedContent.split("\n").length;
+  const finalTokenCount = estimateTokens(finalTrimmedContent);
 
-  for (const file of selectedFiles) {
-    if (file.path === mainFile.fileName) {
-      finalContent += addFileDelimiters(file.path, file.content.trim());
-    } else {
-      const importInfo = resolvedImports.find(
-        (imp) => imp.resolvedPath === file.path
-      );
-      if (importInfo) {
-        const extractedEntities = await extractor.extractImportedEntities(
-          file.content,
-          importInfo
-        );
-        if (extractedEntities.length > 0) {
-          let newContent = "";
-          for (const entity of extractedEntities) {
-            const entityKey = `${file.path}:${entity.name}`;
-            if (!processedEntities.has(entityKey)) {
-              newContent += entity.content + "\n";
-              processedEntities.set(entityKey, entity.content);
-            }
-          }
+  if (
+    !(await copyToClipboard(
+      finalTrimmedContent,
+      mainFile.uri,
+      languages,
+      outputChannel,
+      {
+        history,
+        mode: "tests",
+        rootFiles: [mainFile.fileName, ...tests],
+        files,
+      }
+    ))
+  ) {
+    return;
+  }
+  vscode.window.showInformationMessage(
+    `Code copied with ${testFiles.length} tests and ${
+      processedEntities.size
+    } entities from ${
+      files.length - testFiles.length - 1
+    } files (${finalLineCount} lines, ~${formatTokenCount(
+      finalTokenCount
+    )} tokens)`
+  );
+}
 
-          if (newContent.trim()) {
-            finalContent += addFileDelimiters(file.path, newContent.trim());
-          }
-        }
+async function copyAutoFitFiles(
+  mainFile: vscode.TextDocument,
+  languages: LanguageRegistry,
+  cache: WorkspaceCache,
+  outputChannel: vscode.OutputChannel,
+  history: BundleHistory,
+  config: PBCodeConfig
+) {
+  const maxDepth = await QuickPickService.showDepthPicker(config.copy.maxDepth);
+  if (maxDepth === undefined) {
+    return;
+  }
+
+  const collector = new DependencyCollector(languages, cache, outputChannel);
+  const closure = await withCancellableProgress(
+    "PBCode: Collecting dependencies",
+    (token) => collector.collect(mainFile, maxDepth, token)
+  );
+  if (!closure) {
+    return;
+  }
+  const files = attachDiagnostics(closure.files, config.output.diagnostics);
+  const { budget } = config;
+  const formatter = new OutputFormatter(config.output);
+  // Fits the smaller of the model's budget and the bundle size limit
+  const target =
+    config.copy.maxBundleTokens > 0
+      ? Math.min(budget.tokens, config.copy.maxBundleTokens)
+      : budget.tokens;
+  const {
+    files: fittedFiles,
+    tokens,
+    collapsed,
+    dropped,
+  } = BundleTrimmer.fit(files, target, languages, (candidate) =>
+    formatter.format(candidate)
+  );
+
+  for (const { path, entity } of collapsed) {
+    outputChannel.appendLine(`Auto-fit collapsed ${entity.name} in ${path}`);
+  }
+  for (const { path, entity } of dropped) {
+    outputChannel.appendLine(`Auto-fit dropped ${entity.name} in ${path}`);
+  }
+
+  const finalTrimmedContent = redactBundle(
+    formatter.format(fittedFiles),
+    mainFile.uri,
+    outputChannel
+  );
+  if (
+    !(await copyToClipboard(
+      finalTrimmedContent,
+      mainFile.uri,
+      languages,
+      outputChannel,
+      // Untrimmed, as collapsed entities no longer hold their code
+      { history, mode: "auto-fit", rootFiles: [mainFile.fileName], files }
+    ))
+  ) {
+    return;
+  }
+
+  const summary = `~${formatTokenCount(tokens)} tokens (${formatBudgetShare(
+    tokens,
+    budget
+  )}), ${collapsed.length} entities collapsed, ${dropped.length} dropped`;
+  if (tokens > target) {
+    vscode.window.showWarningMessage(
+      `Code copied but still over budget: ${summary}`
+    );
+  } else {
+    vscode.window.showInformationMessage(`Code copied to fit: ${summary}`);
+  }
+}
+
+// `changes` adds the diff the selection was taken from, which is copied
+// even when every changed file was deleted
+async function copyFileSelection(
+  selection: FileSelection,
+  languages: LanguageRegistry,
+  cache: WorkspaceCache,
+  outputChannel: vscode.OutputChannel,
+  history: BundleHistory,
+  changes?: ChangeSet
+) {
+  for (const skipped of selection.ignored) {
+    outputChannel.appendLine(`Skipped ${skipped}: ignored by .gitignore`);
+  }
+  for (const skipped of selection.excluded) {
+    outputChannel.appendLine(`Skipped ${skipped}: matched pbcode.exclude`);
+  }
+  for (const skipped of selection.binary) {
+    outputChannel.appendLine(`Skipped ${skipped}: binary file`);
+  }
+  if (selection.files.length === 0 && !changes) {
+    vscode.window.showWarningMessage("No text files to copy");
+    return;
+  }
+
+  const scope =
+    selection.files.length > 0
+      ? vscode.Uri.file(selection.files[0])
+      : vscode.window.activeTextEditor?.document.uri;
+  const config = getConfig(scope);
+  const maxDepth = await QuickPickService.showDepthPicker(config.copy.maxDepth);
+  if (maxDepth === undefined) {
+    return;
+  }
+  const outline = await QuickPickService.showDetailPicker();
+  if (outline === undefined) {
+    return;
+  }
+
+  const rootFiles = await Promise.all(
+    selection.files.map((file) =>
+      vscode.workspace.openTextDocument(vscode.Uri.file(file))
+    )
+  );
+  const formatter = new OutputFormatter(config.output);
+  const collector = new DependencyCollector(languages, cache, outputChannel);
+  const closure = await withCancellableProgress(
+    "PBCode: Collecting dependencies",
+    (token) => collector.collectMany(rootFiles, maxDepth, token)
+  );
+  if (!closure) {
+    return;
+  }
+  const { files, processedEntities } = closure;
+
+  const finalTrimmedContent = redactBundle(
+    formatter.format(
+      attachDiagnostics(
+        outline ? outlineDependencies(files, languages) : files,
+        config.output.diagnostics
+      ),
+      changes
+    ),
+    scope,
+    outputChannel
+  );
+  const finalLineCount = finalTrimmedContent.split("\n").length;
+  const finalTokenCount = estimateTokens(finalTrimmedContent);
+  const skippedCount =
+    selection.ignored.length +
+    selection.excluded.length +
+    selection.binary.length;
+
+  if (
+    !(await copyToClipboard(
+      finalTrimmedContent,
+      scope,
+      languages,
+      outputChannel,
+      {
+        history,
+        mode: changes ? "changes" : "files",
+        rootFiles: selection.files,
+        files,
       }
+    ))
+  ) {
+    return;
+  }
+  vscode.window.showInformationMessage(
+    `${changes ? `${changes.label}: ` : ""}${
+      rootFiles.length
+    } files copied with ${processedEntities.size} entities from ${
+      files.length - rootFiles.length
+    } dependencies (${finalLineCount} lines, ~${formatTokenCount(
+      finalTokenCount
+    )} tokens)${skippedCount > 0 ? `, ${skippedCount} files skipped` : ""}`
+  );
+}
+
+// The diff of the working tree or branch, with every changed file whole and
+// what those files use from their imports
+async function copyChanges(
+  languages: LanguageRegistry,
+  cache: WorkspaceCache,
+  outputChannel: vscode.OutputChannel,
+  history: BundleHistory
+) {
+  const activeUri = vscode.window.activeTextEditor?.document.uri;
+  const folder =
+    (activeUri && vscode.workspace.getWorkspaceFolder(activeUri)) ??
+    vscode.workspace.workspaceFolders?.[0];
+  if (!folder) {
+    vscode.window.showErrorMessage("Open a folder in a git repository");
+    return;
+  }
+  const repoRoot = await findRepoRoot(folder.uri.fsPath);
+
+  const scope = await QuickPickService.showChangeScopePicker();
+  if (!scope) {
+    return;
+  }
+  let base = uncommittedChanges();
+  if (scope === "branch") {
+    const branch = await QuickPickService.showBranchPicker(
+      await listBranches(repoRoot)
+    );
+    if (!branch) {
+      return;
     }
+    base = await branchChanges(repoRoot, branch);
+  }
+
+  const changes = await readChanges(repoRoot, base);
+  if (!changes.patch) {
+    vscode.window.showInformationMessage(`${base.label}: nothing changed`);
+    return;
+  }
+  await copyFileSelection(
+    await gatherFiles(changes.files.map((file) => vscode.Uri.file(file))),
+    languages,
+    cache,
+    outputChannel,
+    history,
+    changes
+  );
+}
+
+// Copies an earlier bundle again, or only what changed in it since
+async function copyFromHistory(
+  history: BundleHistory,
+  outputChannel: vscode.OutputChannel
+) {
+  const entries = history.entries();
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage("No bundles have been copied yet");
+    return;
+  }
+  const entry = await QuickPickService.showHistoryPicker(entries);
+  if (!entry) {
+    return;
+  }
+  // Bundles too large to keep can only be compared
+  const action =
+    entry.text === undefined
+      ? "delta"
+      : await QuickPickService.showHistoryActionPicker();
+  if (!action) {
+    return;
+  }
+
+  if (action === "copy" && entry.text !== undefined) {
+    await vscode.env.clipboard.writeText(entry.text);
+    vscode.window.showInformationMessage(
+      `Bundle copied again (~${formatTokenCount(entry.tokens)} tokens)`
+    );
+    return;
   }
+  await copyDelta(entry, history, outputChannel);
+}
 
-  const finalTrimmedContent = finalContent.trim();
-  const totalLines = finalTrimmedContent.split("\n").length;
+async function copyDelta(
+  entry: HistoryEntry,
+  history: BundleHistory,
+  outputChannel: vscode.OutputChannel
+) {
+  const { files, missing } = await history.changedSince(entry);
+  for (const key of missing) {
+    outputChannel.appendLine(
+      `No longer found since the earlier bundle: ${key}`
+    );
+  }
+  if (files.length === 0) {
+    vscode.window.showInformationMessage(
+      `Nothing changed since the bundle of ${new Date(
+        entry.timestamp
+      ).toLocaleString()}`
+    );
+    return;
+  }
 
+  const scope = vscode.Uri.file(entry.rootFiles[0] ?? files[0].path);
+  const config = getConfig(scope);
+  const finalTrimmedContent = redactBundle(
+    new OutputFormatter(config.output).format(
+      attachDiagnostics(files, config.output.diagnostics)
+    ),
+    scope,
+    outputChannel
+  );
+  if (!(await confirmBundleSize(finalTrimmedContent, config.copy))) {
+    return;
+  }
   await vscode.env.clipboard.writeText(finalTrimmedContent);
+
+  const entityCount = files.reduce(
+    (count, file) => count + file.entities.length,
+    0
+  );
   vscode.window.showInformationMessage(
-    `Code copied with ${processedEntities.size} entities from ${
-      new Set(
-        Array.from(processedEntities.keys()).map((key) => key.split(":")[0])
-      ).size
-    } selected files (${totalLines} lines)`
+    `Changes copied: ${
+      files.filter((file) => file.content !== undefined).length
+    } whole files and ${entityCount} entities (~${formatTokenCount(
+      estimateTokens(finalTrimmedContent)
+    )} tokens)${
+      missing.length > 0 ? `, ${missing.length} no longer found` : ""
+    }`
+  );
+}
+
+// Applies the files in an AI response, pasted from the clipboard or open in
+// an editor, after each change is reviewed as a diff
+async function applyResponse(
+  applier: ResponseApplier,
+  outputChannel: vscode.OutputChannel
+) {
+  const editor = vscode.window.activeTextEditor;
+  const folder =
+    (editor && vscode.workspace.getWorkspaceFolder(editor.document.uri)) ??
+    vscode.workspace.workspaceFolders?.[0];
+  if (!folder) {
+    vscode.window.showErrorMessage("Open a folder to apply a response to");
+    return;
+  }
+
+  const source = editor
+    ? await QuickPickService.showResponseSourcePicker(
+        editor.selection.isEmpty
+          ? vscode.workspace.asRelativePath(editor.document.uri)
+          : "The selection"
+      )
+    : "clipboard";
+  if (!source) {
+    return;
+  }
+  const response =
+    source === "editor"
+      ? editor!.document.getText(
+          editor!.selection.isEmpty ? undefined : editor!.selection
+        )
+      : await vscode.env.clipboard.readText();
+
+  const { changes, rejected } = await applier.plan(response, folder);
+  if (rejected.length > 0) {
+    vscode.window.showWarningMessage(
+      `Skipped ${rejected.length} files outside the workspace: ${rejected.join(
+        ", "
+      )}`
+    );
+  }
+  if (changes.length === 0) {
+    vscode.window.showWarningMessage(
+      "No <file> blocks or code blocks labelled with a path in the response"
+    );
+    return;
+  }
+
+  const accepted = await QuickPickService.showProposedChanges(
+    changes,
+    (change) => {
+      applier.showDiff(change).then(undefined, (error) => {
+        outputChannel.appendLine(
+          `Error showing the diff of ${change.label}: ${error}`
+        );
+      });
+    }
+  );
+  if (!accepted || accepted.length === 0) {
+    return;
+  }
+
+  if (!(await applier.apply(accepted))) {
+    vscode.window.showErrorMessage("The changes could not be applied");
+    return;
+  }
+  vscode.window.showInformationMessage(
+    `Applied changes to ${accepted.length} files. Undo reverts them all`
+  );
+}
+
+async function previewBundle(
+  mainFile: vscode.TextDocument,
+  languages: LanguageRegistry,
+  cache: WorkspaceCache,
+  outputChannel: vscode.OutputChannel,
+  preview: BundlePreviewProvider,
+  config: PBCodeConfig
+) {
+  const maxDepth = await QuickPickService.showDepthPicker(config.copy.maxDepth);
+  if (maxDepth === undefined) {
+    return;
+  }
+  const outline = await QuickPickService.showDetailPicker();
+  if (outline === undefined) {
+    return;
+  }
+
+  const collector = new DependencyCollector(languages, cache, outputChannel);
+  const closure = await withCancellableProgress(
+    "PBCode: Collecting dependencies",
+    (token) => collector.collect(mainFile, maxDepth, token)
+  );
+  if (!closure) {
+    return;
+  }
+  const { files } = closure;
+  await preview.show({ mainFile, budget: config.budget }, files, outline);
+}
+
+async function copyCallers(
+  mainFile: vscode.TextDocument,
+  activeSymbol: string | undefined,
+  extractor: CodeExtractor,
+  languages: LanguageRegistry,
+  cache: WorkspaceCache,
+  outputChannel: vscode.OutputChannel,
+  history: BundleHistory,
+  config: PBCodeConfig
+) {
+  const content = mainFile.getText();
+  const symbols = extractor
+    .extractDeclarations(content, mainFile.fileName)
+    .map((declaration) => declaration.name);
+  const target = await QuickPickService.showCallerTargetPicker(
+    symbols,
+    activeSymbol
+  );
+  if (!target) {
+    return;
+  }
+
+  const mode = await QuickPickService.showUsageModePicker(
+    config.callers.contextLines
+  );
+  if (!mode) {
+    return;
+  }
+
+  // Importers reach the default export under any local name
+  const [defaultExport] = await extractor.extractImportedEntities(content, {
+    source: mainFile.fileName,
+    resolvedPath: mainFile.fileName,
+    imports: [{ name: "default", isDefault: true }],
+  });
+
+  const finder = new ReverseDependencyFinder(extractor, cache, outputChannel);
+  const callers = await withCancellableProgress(
+    "PBCode: Searching for importers",
+    (token) =>
+      finder.findCallers(
+        mainFile,
+        {
+          symbol: target.symbol,
+          symbolIsDefault:
+            !!target.symbol && defaultExport?.name === target.symbol,
+          mode,
+          ...config.callers,
+          exclude: config.resolution.exclude,
+        },
+        token
+      )
+  );
+  // Cancelled searches return only the importers found so far
+  if (!callers) {
+    return;
+  }
+  const { files, processedEntities } = callers;
+
+  if (files.length === 1) {
+    vscode.window.showInformationMessage(
+      `No importers of ${target.symbol ?? "this file"} found`
+    );
+    return;
+  }
+
+  const finalTrimmedContent = redactBundle(
+    new OutputFormatter(config.output).format(
+      attachDiagnostics(files, config.output.diagnostics)
+    ),
+    mainFile.uri,
+    outputChannel
+  );
+  const finalLineCount = finalTrimmedContent.split("\n").length;
+  const finalTokenCount = estimateTokens(finalTrimmedContent);
+
+  if (
+    !(await copyToClipboard(
+      finalTrimmedContent,
+      mainFile.uri,
+      languages,
+      outputChannel,
+      { history, mode: "callers", rootFiles: [mainFile.fileName], files }
+    ))
+  ) {
+    return;
+  }
+  vscode.window.showInformationMessage(
+    `Code copied with ${processedEntities.size} usage sites from ${
+      files.length - 1
+    } importing files (${finalLineCount} lines, ~${formatTokenCount(
+      finalTokenCount
+    )} tokens)`
   );
 }
 
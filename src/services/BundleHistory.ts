@@ -0,0 +1,209 @@
+import * as vscode from "vscode";
+import { createHash } from "crypto";
+import { LanguageRegistry } from "./LanguageRegistry";
+import { WorkspaceCache } from "./WorkspaceCache";
+import { CopyMode } from "./QuickPickService";
+import { estimateTokens } from "../utils/tokenEstimator";
+import { BundleEntity, BundleFile, DeclarationKind } from "../types";
+
+const STORAGE_KEY = "pbcode.history";
+// Larger bundles are kept without their text, so they can only be compared
+const MAX_STORED_TEXT = 100_000;
+
+// Explorer and glob selections copy "files"; Copy Changes copies "changes"
+export type HistoryMode = CopyMode | "files" | "changes";
+
+export interface HistoryEntity {
+  path: string;
+  name: string;
+  kind: DeclarationKind;
+  // Zero-based, inclusive. Snippets have no name to find them by, so their
+  // lines are read again.
+  location: { start: number; end: number };
+  hash: string;
+}
+
+export interface HistoryEntry {
+  timestamp: number;
+  mode: HistoryMode;
+  // The files the bundle was built from, such as the active file
+  rootFiles: string[];
+  // Hash of each file copied whole
+  files: Record<string, string>;
+  entities: HistoryEntity[];
+  // The clipboard text, prompt included and secrets redacted. Undefined
+  // when it was too large to keep.
+  text?: string;
+  tokens: number;
+}
+
+export interface BundleDelta {
+  files: BundleFile[];
+  // `path` or `path:name` keys that can no longer be found
+  missing: string[];
+}
+
+// Entries keep the redacted bundle text to copy again; the code they are
+// compared by is stored only as hashes
+function hash(content: string): string {
+  return createHash("sha256").update(content).digest("base64");
+}
+
+// A snippet's lines whole, as they are now
+function sliceSnippet(
+  content: string,
+  location: HistoryEntity["location"]
+): string | undefined {
+  const lines = content.split("\n");
+  return location.end < lines.length
+    ? `\n${lines
+        .slice(location.start, location.end + 1)
+        .join("\n")
+        .trim()}\n`
+    : undefined;
+}
+
+// The last bundles copied in this workspace, newest first
+export class BundleHistory {
+  private storage: vscode.Memento;
+  private languages: LanguageRegistry;
+  private cache: WorkspaceCache;
+
+  constructor(
+    storage: vscode.Memento,
+    languages: LanguageRegistry,
+    cache: WorkspaceCache
+  ) {
+    this.storage = storage;
+    this.languages = languages;
+    this.cache = cache;
+  }
+
+  entries(): HistoryEntry[] {
+    return this.storage.get<HistoryEntry[]>(STORAGE_KEY, []);
+  }
+
+  // `text` should already be redacted. `size` of 0 keeps no history.
+  async record(
+    mode: HistoryMode,
+    rootFiles: string[],
+    files: BundleFile[],
+    text: string,
+    size: number
+  ): Promise<void> {
+    const entities: HistoryEntity[] = [];
+    for (const file of files) {
+      for (const entity of file.entities) {
+        // Snippets are hashed as changedSince will read them again
+        const snippet =
+          entity.kind === "snippet"
+            ? sliceSnippet(
+                await this.cache.readSource(file.path).catch(() => ""),
+                entity.location
+              )
+            : undefined;
+        entities.push({
+          path: file.path,
+          name: entity.name,
+          kind: entity.kind,
+          location: entity.location,
+          hash: hash(snippet ?? entity.content),
+        });
+      }
+    }
+    const entry: HistoryEntry = {
+      timestamp: Date.now(),
+      mode,
+      rootFiles,
+      files: Object.fromEntries(
+        files
+          .filter((file) => file.content !== undefined)
+          .map((file) => [file.path, hash(file.content!)])
+      ),
+      entities,
+      text: text.length <= MAX_STORED_TEXT ? text : undefined,
+      tokens: estimateTokens(text),
+    };
+    await this.storage.update(
+      STORAGE_KEY,
+      size > 0 ? [entry, ...this.entries()].slice(0, size) : []
+    );
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.update(STORAGE_KEY, []);
+  }
+
+  // The files and entities of `entry` whose content is different now, as
+  // they are now. Entities are found again by name, snippets by their lines.
+  async changedSince(entry: HistoryEntry): Promise<BundleDelta> {
+    const files = new Map<string, BundleFile>();
+    const missing: string[] = [];
+
+    for (const [filePath, before] of Object.entries(entry.files)) {
+      const content = await this.cache
+        .readSource(filePath)
+        .catch(() => undefined);
+      if (content === undefined) {
+        missing.push(filePath);
+      } else if (hash(content) !== before) {
+        files.set(filePath, {
+          path: filePath,
+          depth: 0,
+          content,
+          entities: [],
+        });
+      }
+    }
+
+    for (const before of entry.entities) {
+      if (files.get(before.path)?.content !== undefined) {
+        continue;
+      }
+
+      const entity = await this.findEntity(before);
+      if (!entity) {
+        missing.push(`${before.path}:${before.name}`);
+      } else if (hash(entity.content) !== before.hash) {
+        const file = files.get(before.path) ?? {
+          path: before.path,
+          depth: 1,
+          entities: [],
+        };
+        file.entities.push(entity);
+        files.set(before.path, file);
+      }
+    }
+    return { files: Array.from(files.values()), missing };
+  }
+
+  private async findEntity(
+    before: HistoryEntity
+  ): Promise<BundleEntity | undefined> {
+    const provider = this.languages.forPath(before.path);
+    const content = await this.cache
+      .readSource(before.path)
+      .catch(() => undefined);
+    if (!provider || content === undefined) {
+      return undefined;
+    }
+
+    if (before.kind === "snippet") {
+      const snippet = sliceSnippet(content, before.location);
+      return snippet === undefined
+        ? undefined
+        : {
+            name: before.name,
+            kind: "snippet",
+            content: snippet,
+            references: [],
+            location: before.location,
+            depth: 1,
+          };
+    }
+    const declaration = provider
+      .extractDeclarations(content, before.path)
+      .find((d) => d.name === before.name);
+    return declaration && { ...declaration, depth: 1 };
+  }
+}
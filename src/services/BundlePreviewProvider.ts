@@ -0,0 +1,459 @@
+import * as vscode from "vscode";
+import { LanguageRegistry } from "./LanguageRegistry";
+import { WorkspaceCache } from "./WorkspaceCache";
+import { DependencyCollector } from "./DependencyCollector";
+import { BundleEntity, BundleFile } from "../types";
+import { estimateTokens, formatTokenCount } from "../utils/tokenEstimator";
+import { formatBudgetShare, TokenBudget } from "../utils/tokenBudget";
+import { outlineEntity } from "../utils/outline";
+
+const DRAG_MIME_TYPE = "application/vnd.code.tree.pbcode.bundlepreview";
+
+interface PreviewEntity {
+  entity: BundleEntity;
+  included: boolean;
+  lines: number;
+  tokens: number;
+  // Signatures-only rendering, computed when first needed
+  outline?: { entity: BundleEntity; lines: number; tokens: number };
+}
+
+interface PreviewFile {
+  file: BundleFile;
+  included: boolean;
+  // Render the entities as signatures only
+  outlined: boolean;
+  entities: PreviewEntity[];
+  // Only set for files copied whole
+  lines?: number;
+  tokens?: number;
+}
+
+type PreviewNode =
+  | { type: "file"; file: PreviewFile }
+  | { type: "entity"; file: PreviewFile; entity: PreviewEntity };
+
+export interface PreviewSession {
+  mainFile: vscode.TextDocument;
+  budget: TokenBudget;
+}
+
+function measure(text: string): { lines: number; tokens: number } {
+  return {
+    lines: text.trim().split("\n").length,
+    tokens: estimateTokens(text),
+  };
+}
+
+function toPreviewEntity(entity: BundleEntity): PreviewEntity {
+  return { entity, included: true, ...measure(entity.content) };
+}
+
+function toPreviewFile(file: BundleFile, outlined = false): PreviewFile {
+  return {
+    file,
+    included: true,
+    outlined: outlined && file.content === undefined,
+    entities: file.entities.map(toPreviewEntity),
+    ...(file.content !== undefined ? measure(file.content) : {}),
+  };
+}
+
+export class BundlePreviewProvider
+  implements
+    vscode.TreeDataProvider<PreviewNode>,
+    vscode.TreeDragAndDropController<PreviewNode>
+{
+  readonly dropMimeTypes = [DRAG_MIME_TYPE];
+  readonly dragMimeTypes = [DRAG_MIME_TYPE];
+
+  private languages: LanguageRegistry;
+  private cache: WorkspaceCache;
+  private outputChannel: vscode.OutputChannel;
+  private files: PreviewFile[] = [];
+  private nodes = new Map<PreviewFile | PreviewEntity, PreviewNode>();
+  private view?: vscode.TreeView<PreviewNode>;
+  private changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+  session?: PreviewSession;
+
+  constructor(
+    languages: LanguageRegistry,
+    cache: WorkspaceCache,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this.languages = languages;
+    this.cache = cache;
+    this.outputChannel = outputChannel;
+  }
+
+  register(): vscode.Disposable {
+    this.view = vscode.window.createTreeView("pbcode.bundlePreview", {
+      treeDataProvider: this,
+      dragAndDropController: this,
+      manageCheckboxStateManually: true,
+      canSelectMany: true,
+    });
+
+    return vscode.Disposable.from(
+      this.view,
+      this.changeEmitter,
+      this.view.onDidChangeCheckboxState((event) =>
+        this.applyCheckboxes(event.items)
+      )
+    );
+  }
+
+  async show(
+    session: PreviewSession,
+    files: BundleFile[],
+    outline = false
+  ): Promise<void> {
+    this.session = session;
+    // The active file's own entities are never outlined
+    this.files = files.map((file) =>
+      toPreviewFile(file, outline && file.depth > 0)
+    );
+    this.nodes.clear();
+    this.refresh();
+    await vscode.commands.executeCommand(
+      "setContext",
+      "pbcode.previewActive",
+      true
+    );
+    await vscode.commands.executeCommand("pbcode.bundlePreview.focus");
+  }
+
+  async clear(): Promise<void> {
+    this.session = undefined;
+    this.files = [];
+    this.nodes.clear();
+    this.refresh();
+    await vscode.commands.executeCommand(
+      "setContext",
+      "pbcode.previewActive",
+      false
+    );
+  }
+
+  // The checked files and entities, in their current order
+  getBundle(): BundleFile[] {
+    const bundle: BundleFile[] = [];
+    for (const { file, included, outlined, entities } of this.files) {
+      if (!included) {
+        continue;
+      }
+      if (file.content !== undefined) {
+        bundle.push(file);
+        continue;
+      }
+      const checked = entities
+        .filter((e) => e.included)
+        .map((e) => this.displayed(file.path, e, outlined).entity);
+      if (checked.length > 0) {
+        bundle.push({ ...file, entities: checked });
+      }
+    }
+    return bundle;
+  }
+
+  toggleOutline(node: PreviewNode): void {
+    if (node.file.file.content !== undefined) {
+      return;
+    }
+    node.file.outlined = !node.file.outlined;
+    this.refresh();
+  }
+
+  // Pulls in the imports the entity uses, one level further than it
+  async expandEntity(node: PreviewNode): Promise<void> {
+    if (node.type !== "entity") {
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(
+      vscode.Uri.file(node.file.file.path)
+    );
+    const collector = new DependencyCollector(
+      this.languages,
+      this.cache,
+      this.outputChannel
+    );
+    const { files } = await collector.collectFromSeed(
+      document,
+      node.entity.entity,
+      1
+    );
+
+    // Depths continue from the expanded entity's, not its file's
+    const { depth: seedDepth } = node.entity.entity;
+    let added = 0;
+    for (const collected of files) {
+      let target = this.files.find((f) => f.file.path === collected.path);
+      if (!target) {
+        target = toPreviewFile({
+          path: collected.path,
+          depth: seedDepth + collected.depth,
+          entities: [],
+        });
+        this.files.push(target);
+      }
+      if (target.file.content !== undefined) {
+        continue;
+      }
+
+      for (const entity of collected.entities) {
+        if (target.entities.some((e) => e.entity.name === entity.name)) {
+          continue;
+        }
+        target.entities.push(
+          toPreviewEntity({ ...entity, depth: seedDepth + entity.depth })
+        );
+        added++;
+      }
+      target.entities.sort(
+        (a, b) => a.entity.location.start - b.entity.location.start
+      );
+      target.included = true;
+    }
+
+    this.refresh();
+    vscode.window.showInformationMessage(
+      `Added ${added} entities used by ${node.entity.entity.name}`
+    );
+  }
+
+  getTreeItem(node: PreviewNode): vscode.TreeItem {
+    if (node.type === "file") {
+      const { file } = node;
+      const totals = this.fileTotals(file);
+      const item = new vscode.TreeItem(
+        vscode.workspace.asRelativePath(file.file.path),
+        file.entities.length > 0
+          ? vscode.TreeItemCollapsibleState.Expanded
+          : vscode.TreeItemCollapsibleState.None
+      );
+      item.resourceUri = vscode.Uri.file(file.file.path);
+      item.iconPath = vscode.ThemeIcon.File;
+      item.description = `${
+        file.file.content !== undefined
+          ? "whole file · "
+          : file.outlined
+          ? "signatures · "
+          : ""
+      }${totals.lines} lines · ~${formatTokenCount(totals.tokens)} tokens`;
+      item.contextValue =
+        file.file.content !== undefined
+          ? "wholeFile"
+          : file.outlined
+          ? "outlinedFile"
+          : "file";
+      item.checkboxState = file.included
+        ? vscode.TreeItemCheckboxState.Checked
+        : vscode.TreeItemCheckboxState.Unchecked;
+      item.command = {
+        command: "vscode.open",
+        title: "Open File",
+        arguments: [item.resourceUri],
+      };
+      return item;
+    }
+
+    const { entity } = node.entity;
+    const shown = this.displayed(
+      node.file.file.path,
+      node.entity,
+      node.file.outlined
+    );
+    const item = new vscode.TreeItem(
+      entity.name,
+      vscode.TreeItemCollapsibleState.None
+    );
+    item.description = `${entity.kind} · ${
+      shown.lines
+    } lines · ~${formatTokenCount(shown.tokens)} tokens`;
+    item.tooltip = new vscode.MarkdownString().appendCodeblock(
+      shown.entity.content.trim()
+    );
+    item.contextValue = "entity";
+    item.checkboxState = node.entity.included
+      ? vscode.TreeItemCheckboxState.Checked
+      : vscode.TreeItemCheckboxState.Unchecked;
+    item.command = {
+      command: "vscode.open",
+      title: "Go to Entity",
+      arguments: [
+        vscode.Uri.file(node.file.file.path),
+        {
+          selection: new vscode.Range(
+            entity.location.start,
+            0,
+            entity.location.start,
+            0
+          ),
+        },
+      ],
+    };
+    return item;
+  }
+
+  getChildren(node?: PreviewNode): PreviewNode[] {
+    if (!node) {
+      return this.files.map((file) =>
+        this.nodeFor(file, { type: "file", file })
+      );
+    }
+    if (node.type === "file") {
+      return node.file.entities.map((entity) =>
+        this.nodeFor(entity, { type: "entity", file: node.file, entity })
+      );
+    }
+    return [];
+  }
+
+  getParent(node: PreviewNode): PreviewNode | undefined {
+    return node.type === "entity"
+      ? this.nodeFor(node.file, { type: "file", file: node.file })
+      : undefined;
+  }
+
+  handleDrag(
+    source: readonly PreviewNode[],
+    dataTransfer: vscode.DataTransfer
+  ): void {
+    dataTransfer.set(DRAG_MIME_TYPE, new vscode.DataTransferItem(source));
+  }
+
+  handleDrop(
+    target: PreviewNode | undefined,
+    dataTransfer: vscode.DataTransfer
+  ): void {
+    const dragged: PreviewNode[] | undefined =
+      dataTransfer.get(DRAG_MIME_TYPE)?.value;
+    if (!dragged || dragged.length === 0) {
+      return;
+    }
+
+    // Files move among files; entities only move within their own file
+    const files = dragged
+      .filter((node) => node.type === "file")
+      .map((node) => node.file);
+    if (files.length > 0) {
+      const before = target && this.files.indexOf(target.file);
+      this.files = this.moveBefore(this.files, files, before);
+    }
+
+    for (const node of dragged) {
+      if (node.type !== "entity" || target?.file !== node.file) {
+        continue;
+      }
+      const before =
+        target.type === "entity"
+          ? node.file.entities.indexOf(target.entity)
+          : 0;
+      node.file.entities = this.moveBefore(
+        node.file.entities,
+        [node.entity],
+        before
+      );
+    }
+
+    this.refresh();
+  }
+
+  private moveBefore<T>(items: T[], moved: T[], before?: number): T[] {
+    const anchor = before === undefined ? undefined : items[before];
+    const remaining = items.filter((item) => !moved.includes(item));
+    const index =
+      anchor === undefined || moved.includes(anchor)
+        ? remaining.length
+        : remaining.indexOf(anchor);
+    return [...remaining.slice(0, index), ...moved, ...remaining.slice(index)];
+  }
+
+  private applyCheckboxes(
+    items: ReadonlyArray<[PreviewNode, vscode.TreeItemCheckboxState]>
+  ): void {
+    for (const [node, state] of items) {
+      const checked = state === vscode.TreeItemCheckboxState.Checked;
+      if (node.type === "file") {
+        node.file.included = checked;
+        node.file.entities.forEach((entity) => (entity.included = checked));
+      } else {
+        node.entity.included = checked;
+        node.file.included = node.file.entities.some((e) => e.included);
+      }
+    }
+    this.refresh();
+  }
+
+  private fileTotals(file: PreviewFile): { lines: number; tokens: number } {
+    if (file.file.content !== undefined) {
+      return { lines: file.lines ?? 0, tokens: file.tokens ?? 0 };
+    }
+    return file.entities
+      .filter((entity) => entity.included)
+      .map((entity) => this.displayed(file.file.path, entity, file.outlined))
+      .reduce(
+        (totals, entity) => ({
+          lines: totals.lines + entity.lines,
+          tokens: totals.tokens + entity.tokens,
+        }),
+        { lines: 0, tokens: 0 }
+      );
+  }
+
+  private displayed(
+    filePath: string,
+    entity: PreviewEntity,
+    outlined: boolean
+  ): { entity: BundleEntity; lines: number; tokens: number } {
+    if (!outlined) {
+      return entity;
+    }
+    if (!entity.outline) {
+      const outline = outlineEntity(entity.entity, filePath, this.languages);
+      entity.outline = { entity: outline, ...measure(outline.content) };
+    }
+    return entity.outline;
+  }
+
+  // Tree views compare elements by identity, so nodes are reused
+  private nodeFor(
+    key: PreviewFile | PreviewEntity,
+    node: PreviewNode
+  ): PreviewNode {
+    let existing = this.nodes.get(key);
+    if (!existing) {
+      existing = node;
+      this.nodes.set(key, existing);
+    }
+    return existing;
+  }
+
+  private refresh(): void {
+    this.changeEmitter.fire();
+    if (!this.view) {
+      return;
+    }
+
+    const included = this.files.filter((file) => file.included);
+    const totals = included
+      .map((file) => this.fileTotals(file))
+      .reduce(
+        (sum, file) => ({
+          lines: sum.lines + file.lines,
+          tokens: sum.tokens + file.tokens,
+        }),
+        { lines: 0, tokens: 0 }
+      );
+    this.view.message =
+      this.session &&
+      `Selected: ${included.length} files, ${
+        totals.lines
+      } lines, ~${formatTokenCount(totals.tokens)} tokens (${formatBudgetShare(
+        totals.tokens,
+        this.session.budget
+      )})`;
+  }
+}
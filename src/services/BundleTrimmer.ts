@@ -0,0 +1,95 @@
+import { LanguageRegistry } from "./LanguageRegistry";
+import { BundleEntity, BundleFile } from "../types";
+import { estimateTokens } from "../utils/tokenEstimator";
+import { outlineEntity } from "../utils/outline";
+
+export interface TrimmedEntity {
+  path: string;
+  entity: BundleEntity;
+}
+
+export interface FitResult {
+  files: BundleFile[];
+  tokens: number;
+  collapsed: TrimmedEntity[];
+  dropped: TrimmedEntity[];
+}
+
+export class BundleTrimmer {
+  // Collapses, then drops, dependency entities from the furthest depth inward
+  // until the rendered bundle fits the budget. The active file is never
+  // trimmed, so the result can still exceed a very small budget.
+  static fit(
+    files: BundleFile[],
+    budget: number,
+    languages: LanguageRegistry,
+    render: (files: BundleFile[]) => string
+  ): FitResult {
+    const trimmed: BundleFile[] = files.map((file) => ({
+      ...file,
+      entities: [...file.entities],
+    }));
+    const result: FitResult = {
+      files: trimmed,
+      tokens: estimateTokens(render(trimmed)),
+      collapsed: [],
+      dropped: [],
+    };
+
+    // Furthest first; within a depth, the largest entities go first so as
+    // few entities as possible are touched
+    const candidates = trimmed
+      .flatMap((file) =>
+        file.entities.map((entity) => ({
+          file,
+          entity,
+          tokens: estimateTokens(entity.content),
+        }))
+      )
+      .sort((a, b) => b.entity.depth - a.entity.depth || b.tokens - a.tokens);
+
+    for (const candidate of candidates) {
+      if (result.tokens <= budget) {
+        break;
+      }
+      const collapsed = outlineEntity(
+        candidate.entity,
+        candidate.file.path,
+        languages
+      );
+      const outlinedTokens = estimateTokens(collapsed.content);
+      if (outlinedTokens >= candidate.tokens) {
+        continue;
+      }
+
+      candidate.file.entities[
+        candidate.file.entities.indexOf(candidate.entity)
+      ] = collapsed;
+      result.tokens -= candidate.tokens - outlinedTokens;
+      result.collapsed.push({ path: candidate.file.path, entity: collapsed });
+      candidate.entity = collapsed;
+      candidate.tokens = outlinedTokens;
+    }
+
+    for (const candidate of candidates) {
+      if (result.tokens <= budget) {
+        break;
+      }
+      candidate.file.entities.splice(
+        candidate.file.entities.indexOf(candidate.entity),
+        1
+      );
+      result.tokens -= candidate.tokens;
+      result.dropped.push({
+        path: candidate.file.path,
+        entity: candidate.entity,
+      });
+    }
+
+    result.files = trimmed.filter(
+      (file) => file.content !== undefined || file.entities.length > 0
+    );
+    result.tokens = estimateTokens(render(result.files));
+    return result;
+  }
+}
@@ -1,4 +1,42 @@
-import { ImportInfo, ExtractedContent } from "../types";
+import { TSESTree } from "@typescript-eslint/typescript-estree";
+import {
+  ImportInfo,
+  ExtractedContent,
+  DeclarationKind,
+  SnippetRange,
+} from "../types";
+import {
+  parseSource,
+  getBoundNames,
+  createLineLocator,
+  collectReferences,
+} from "../utils/astUtils";
+
+interface Declaration {
+  names: string[];
+  kind: DeclarationKind;
+  isDefault: boolean;
+  node: TSESTree.Node;
+  start: number;
+  end: number;
+  // Text to emit when it cannot be sliced verbatim, e.g. one declarator of
+  // `export const a = 1, b = 2`
+  text?: string;
+}
+
+interface CollectedDeclaration {
+  names: string[];
+  // Names it is exported under through `export { a as b }`
+  exportedAs: string[];
+  isDefault: boolean;
+  kind: DeclarationKind;
+  parts: string[];
+  references: Set<string>;
+  start: number;
+  end: number;
+  startLine: number;
+  endLine: number;
+}
 
 export class CodeExtractor {
   private seenDeclarations = new Set<string>();
@@ -16,96 +54,380 @@ export class CodeExtractor {
     }
   }
 
+  extractDeclarations(
+    sourceCode: string,
+    filePath?: string
+  ): ExtractedContent[] {
+    try {
+      return this.collectDeclarations(sourceCode, filePath).map((declaration) =>
+        this.toExtractedContent(declaration, declaration.names[0])
+      );
+    } catch (error) {
+      console.error("Failed to extract declarations:", error);
+      return [];
+    }
+  }
+
+  extractSnippet(
+    sourceCode: string,
+    filePath: string | undefined,
+    range: SnippetRange
+  ): ExtractedContent {
+    let references: string[] = [];
+    try {
+      const ast = parseSource(sourceCode, filePath);
+      references = Array.from(
+        collectReferences(ast, [range.startOffset, range.endOffset])
+      );
+    } catch (error) {
+      console.error("Failed to parse file around selection:", error);
+    }
+
+    return {
+      content: `\n${sourceCode
+        .slice(range.startOffset, range.endOffset)
+        .trim()}\n`,
+      name: `selection:${range.startLine + 1}-${range.endLine + 1}`,
+      kind: "snippet",
+      references,
+      location: {
+        start: range.startLine,
+        end: range.endLine,
+      },
+    };
+  }
+
   private findDeclarations(
     sourceCode: string,
     importInfo: ImportInfo
   ): ExtractedContent[] {
     const extracted: ExtractedContent[] = [];
-    const lines = sourceCode.split("\n");
-
-    let currentDeclaration: string[] = [];
-    let isCollecting = false;
-    let bracketCount = 0;
-    let currentName: string | null = null;
-    let startLine: number = 0;
 
-    const storeCurrentDeclaration = (endLine: number) => {
+    for (const declaration of this.collectDeclarations(
+      sourceCode,
+      importInfo.resolvedPath
+    )) {
+      const name = declaration.names[0];
       if (
-        currentName &&
-        !this.seenDeclarations.has(currentName) &&
-        this.isImportedInAny(currentName, importInfo)
+        !this.seenDeclarations.has(name) &&
+        this.isImportedInAny(declaration, importInfo)
       ) {
-        this.seenDeclarations.add(currentName);
-        extracted.push({
-          content: this.formatDeclaration(currentDeclaration.join("\n")),
-          name: currentName,
-          location: {
-            start: startLine,
-            end: endLine,
-          },
-        });
+        declaration.names.forEach((n) => this.seenDeclarations.add(n));
+        extracted.push(this.toExtractedContent(declaration, name));
       }
-      isCollecting = false;
-      currentDeclaration = [];
-      currentName = null;
-      bracketCount = 0;
-    };
+    }
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
+    return extracted;
+  }
+
+  private collectDeclarations(
+    sourceCode: string,
+    filePath?: string
+  ): CollectedDeclaration[] {
+    const ast = parseSource(sourceCode, filePath);
+    const lineAt = createLineLocator(sourceCode);
+    const collected: CollectedDeclaration[] = [];
+    const byName = new Map<string, CollectedDeclaration>();
+    const localExports: TSESTree.ExportSpecifier[] = [];
+    let defaultExportName: string | null = null;
+    let previousEnd = 0;
 
-      if (!isCollecting) {
-        const declarationMatch = line.match(
-          /^(?:export\s+)?(?:default\s+)?(?:async\s+)?(?:function|class|interface|type|const)\s+([A-Za-z0-9_]+)/
+    for (const statement of ast.body) {
+      if (statement.type === "ExportNamedDeclaration" && !statement.source) {
+        localExports.push(...statement.specifiers);
+      } else if (
+        statement.type === "ExportDefaultDeclaration" &&
+        statement.declaration.type === "Identifier"
+      ) {
+        // `export default Foo;` exports a declaration made elsewhere
+        defaultExportName = statement.declaration.name;
+        previousEnd = statement.range[1];
+        continue;
+      }
+
+      const declarations = this.declarationsOf(statement, sourceCode);
+
+      if (declarations.length === 1 && !declarations[0].text) {
+        declarations[0].start = this.leadingDocCommentStart(
+          ast.comments ?? [],
+          declarations[0].start,
+          previousEnd,
+          sourceCode
         );
+      }
 
-        if (declarationMatch) {
-          currentName = declarationMatch[1];
-          isCollecting = true;
-          startLine = i;
-          currentDeclaration = [lines[i]];
-          bracketCount =
-            (line.match(/{/g) || []).length - (line.match(/}/g) || []).length;
+      for (const declaration of declarations) {
+        const text =
+          declaration.text ??
+          sourceCode.slice(declaration.start, declaration.end);
+        const existing = declaration.names
+          .map((name) => byName.get(name))
+          .find((entry) => entry !== undefined);
+
+        if (existing) {
+          // Overloads and merged declarations (interface + namespace, etc.)
+          // are emitted as a single entity
+          const between = sourceCode.slice(existing.end, declaration.start);
+          if (!declaration.text && between.trim() === "") {
+            existing.parts[existing.parts.length - 1] = sourceCode.slice(
+              existing.start,
+              declaration.end
+            );
+          } else {
+            existing.parts.push(text);
+            existing.start = declaration.start;
+          }
+          collectReferences(declaration.node).forEach((reference) =>
+            existing.references.add(reference)
+          );
+          existing.isDefault = existing.isDefault || declaration.isDefault;
+          existing.end = declaration.end;
+          existing.endLine = lineAt(declaration.end - 1);
           continue;
         }
+
+        const entry: CollectedDeclaration = {
+          names: declaration.names,
+          exportedAs: [],
+          isDefault: declaration.isDefault,
+          kind: declaration.kind,
+          parts: [text],
+          references: collectReferences(declaration.node),
+          start: declaration.start,
+          end: declaration.end,
+          startLine: lineAt(declaration.start),
+          endLine: lineAt(declaration.end - 1),
+        };
+        collected.push(entry);
+        declaration.names.forEach((name) => byName.set(name, entry));
       }
 
-      if (isCollecting) {
-        currentDeclaration.push(lines[i]);
-        bracketCount += (line.match(/{/g) || []).length;
-        bracketCount -= (line.match(/}/g) || []).length;
+      previousEnd = statement.range[1];
+    }
 
-        if (bracketCount === 0 && line.match(/[};]/)) {
-          storeCurrentDeclaration(i);
-        }
+    for (const specifier of localExports) {
+      const entry =
+        specifier.local.type === "Identifier"
+          ? byName.get(specifier.local.name)
+          : undefined;
+      const exported =
+        specifier.exported.type === "Identifier"
+          ? specifier.exported.name
+          : specifier.exported.value;
+      if (entry && exported === "default") {
+        entry.isDefault = true;
+      } else if (entry) {
+        entry.exportedAs.push(exported);
       }
     }
+    const defaultEntry = defaultExportName && byName.get(defaultExportName);
+    if (defaultEntry) {
+      defaultEntry.isDefault = true;
+    }
 
-    if (isCollecting) {
-      console.error(
-        "Invalid typescript? Still collecting at end of file",
-        importInfo.resolvedPath
-      );
-      storeCurrentDeclaration(lines.length - 1);
+    return collected;
+  }
+
+  private declarationsOf(
+    statement: TSESTree.ProgramStatement,
+    sourceCode: string
+  ): Declaration[] {
+    let node: TSESTree.Node = statement;
+    const isDefault = statement.type === "ExportDefaultDeclaration";
+    if (statement.type === "ExportNamedDeclaration") {
+      if (!statement.declaration) {
+        return [];
+      }
+      node = statement.declaration;
+    } else if (statement.type === "ExportDefaultDeclaration") {
+      node = statement.declaration;
     }
 
-    return extracted;
+    const start = this.startOf(statement, node);
+    const end = statement.range[1];
+
+    if (node.type === "VariableDeclaration") {
+      if (node.declarations.length === 1) {
+        return [
+          {
+            names: getBoundNames(node.declarations[0].id),
+            kind: "variable",
+            isDefault,
+            node,
+            start,
+            end,
+          },
+        ];
+      }
+
+      const prefix = sourceCode
+        .slice(start, node.declarations[0].range[0])
+        .trim();
+      return node.declarations.map((declarator) => ({
+        names: getBoundNames(declarator.id),
+        kind: "variable",
+        isDefault,
+        node: declarator,
+        start: declarator.range[0],
+        end: declarator.range[1],
+        text: `${prefix} ${sourceCode.slice(
+          declarator.range[0],
+          declarator.range[1]
+        )};`,
+      }));
+    }
+
+    const kind = this.kindOf(node, statement);
+    if (!kind) {
+      return [];
+    }
+
+    return [
+      {
+        names: [this.nameOf(node) ?? "default"],
+        kind,
+        isDefault,
+        node,
+        start,
+        end,
+      },
+    ];
+  }
+
+  private kindOf(
+    node: TSESTree.Node,
+    statement: TSESTree.ProgramStatement
+  ): DeclarationKind | null {
+    switch (node.type) {
+      case "FunctionDeclaration":
+      case "TSDeclareFunction":
+      case "FunctionExpression":
+      case "ArrowFunctionExpression":
+        return "function";
+      case "ClassDeclaration":
+      case "ClassExpression":
+        return "class";
+      case "TSInterfaceDeclaration":
+        return "interface";
+      case "TSTypeAliasDeclaration":
+        return "type";
+      case "TSEnumDeclaration":
+        return "enum";
+      case "TSModuleDeclaration":
+        return "namespace";
+      default:
+        // `export default <expression>`
+        return statement.type === "ExportDefaultDeclaration"
+          ? "variable"
+          : null;
+    }
+  }
+
+  private nameOf(node: TSESTree.Node): string | null {
+    if (!("id" in node) || !node.id) {
+      return null;
+    }
+
+    let id: TSESTree.Node = node.id;
+    while (id.type === "TSQualifiedName") {
+      id = id.left;
+    }
+    if (id.type === "Identifier") {
+      return id.name;
+    }
+    if (id.type === "Literal") {
+      return String(id.value);
+    }
+    return null;
+  }
+
+  private startOf(
+    statement: TSESTree.ProgramStatement,
+    node: TSESTree.Node
+  ): number {
+    // Decorators may be written before the `export` keyword
+    const decorators =
+      "decorators" in node && Array.isArray(node.decorators)
+        ? node.decorators
+        : [];
+    return Math.min(
+      statement.range[0],
+      ...decorators.map((decorator: TSESTree.Decorator) => decorator.range[0])
+    );
+  }
+
+  private leadingDocCommentStart(
+    comments: TSESTree.Comment[],
+    start: number,
+    previousEnd: number,
+    sourceCode: string
+  ): number {
+    for (let i = comments.length - 1; i >= 0; i--) {
+      const comment = comments[i];
+      if (comment.range[1] > start) {
+        continue;
+      }
+      if (
+        comment.range[0] >= previousEnd &&
+        comment.type === "Block" &&
+        comment.value.startsWith("*") &&
+        sourceCode.slice(comment.range[1], start).trim() === ""
+      ) {
+        return comment.range[0];
+      }
+      break;
+    }
+    return start;
+  }
+
+  private toExtractedContent(
+    declaration: CollectedDeclaration,
+    name: string
+  ): ExtractedContent {
+    return {
+      content: this.formatDeclaration(declaration.parts.join("\n\n")),
+      name,
+      kind: declaration.kind,
+      references: Array.from(declaration.references).filter(
+        (reference) => !declaration.names.includes(reference)
+      ),
+      location: {
+        start: declaration.startLine,
+        end: declaration.endLine,
+      },
+    };
   }
 
   private formatDeclaration(content: string): string {
     content = content.replace(/\n\s*\n\s*\n/g, "\n\n");
-    content = content.replace(/^export\s+default\s+/, "");
+    content = content.replace(
+      /(^|\n)export\s+default\s+(?=(?:abstract\s+|async\s+)?(?:function|class|interface)\b)/,
+      "$1"
+    );
     content = `\n${content.trim()}\n`;
     return content;
   }
 
-  private isImportedInAny(name: string, importInfo: ImportInfo): boolean {
-    return importInfo.imports.some(
-      (i) =>
-        i.name === name ||
-        i.alias === name ||
-        (i.isDefault && name === "default") ||
-        i.isNamespace
-    );
+  private isImportedInAny(
+    declaration: CollectedDeclaration,
+    importInfo: ImportInfo
+  ): boolean {
+    const exportedNames = [
+      ...declaration.names,
+      ...declaration.exportedAs,
+      ...(declaration.isDefault ? ["default"] : []),
+    ];
+    return importInfo.imports.some((i) => {
+      if (i.isNamespace) {
+        return (
+          !i.members ||
+          i.members.some((member) => exportedNames.includes(member))
+        );
+      }
+      if (i.isDefault) {
+        return declaration.isDefault;
+      }
+      return exportedNames.includes(i.name);
+    });
   }
 }
@@ -0,0 +1,273 @@
+import { LanguageRegistry } from "./LanguageRegistry";
+import { WorkspaceCache } from "./WorkspaceCache";
+import {
+  BundleFile,
+  CancellationSignal,
+  DependencyClosure,
+  ExtractedContent,
+  ImportInfo,
+  LanguageProvider,
+  Logger,
+  SourceDocument,
+} from "../types";
+
+interface FileAnalysis {
+  content: string;
+  // Undefined for languages without a provider, whose files are copied as is
+  provider?: LanguageProvider;
+  declarations: ExtractedContent[];
+  // As written in the file, before resolution
+  imports: ImportInfo[];
+}
+
+interface PendingImport {
+  importInfo: ImportInfo;
+  depth: number;
+}
+
+interface CollectionState {
+  maxDepth: number;
+  queue: PendingImport[];
+  files: Map<string, BundleFile>;
+  processedEntities: Map<string, string>;
+  token?: CancellationSignal;
+}
+
+export class DependencyCollector {
+  private languages: LanguageRegistry;
+  private cache: WorkspaceCache;
+  private outputChannel: Logger;
+
+  constructor(
+    languages: LanguageRegistry,
+    cache: WorkspaceCache,
+    outputChannel: Logger
+  ) {
+    this.languages = languages;
+    this.cache = cache;
+    this.outputChannel = outputChannel;
+  }
+
+  async collect(
+    mainFile: SourceDocument,
+    maxDepth: number,
+    token?: CancellationSignal
+  ): Promise<DependencyClosure> {
+    return this.collectMany([mainFile], maxDepth, token);
+  }
+
+  // Every root is copied whole and they share one closure, so a dependency
+  // used by several roots is only included once
+  async collectMany(
+    rootFiles: SourceDocument[],
+    maxDepth: number,
+    token?: CancellationSignal
+  ): Promise<DependencyClosure> {
+    const state = this.createState(maxDepth, token);
+    for (const rootFile of rootFiles) {
+      state.files.set(rootFile.fileName, {
+        path: rootFile.fileName,
+        depth: 0,
+        content: rootFile.getText(),
+        entities: [],
+      });
+    }
+
+    const rootImports = await Promise.all(
+      rootFiles.map(async (rootFile) => {
+        try {
+          const analysis = await this.analyze(
+            rootFile.fileName,
+            this.languages.forDocument(rootFile)
+          );
+          return await this.importsOf(rootFile.fileName, analysis);
+        } catch (error) {
+          this.outputChannel.appendLine(
+            `Error resolving imports of ${rootFile.fileName}: ${error}`
+          );
+          return [];
+        }
+      })
+    );
+    for (const importInfo of rootImports.flat()) {
+      this.enqueue(state, { importInfo, depth: 1 });
+    }
+
+    return this.drain(state);
+  }
+
+  // Starts from one declaration or selection of the active file instead of
+  // the whole file, so only what the seed uses is bundled
+  async collectFromSeed(
+    mainFile: SourceDocument,
+    seed: ExtractedContent,
+    maxDepth: number,
+    token?: CancellationSignal
+  ): Promise<DependencyClosure> {
+    const state = this.createState(maxDepth, token);
+    const analysis = await this.analyze(
+      mainFile.fileName,
+      this.languages.forDocument(mainFile)
+    );
+
+    await this.addEntity(state, mainFile.fileName, seed, 0, analysis);
+    return this.drain(state);
+  }
+
+  private createState(
+    maxDepth: number,
+    token?: CancellationSignal
+  ): CollectionState {
+    return {
+      maxDepth,
+      queue: [],
+      files: new Map(),
+      processedEntities: new Map(),
+      token,
+    };
+  }
+
+  // Queued files are read and parsed in the background while earlier imports
+  // are processed
+  private enqueue(state: CollectionState, pending: PendingImport): void {
+    state.queue.push(pending);
+    if (pending.depth <= state.maxDepth) {
+      this.analyze(pending.importInfo.resolvedPath).catch(() => undefined);
+    }
+  }
+
+  private async drain(state: CollectionState): Promise<DependencyClosure> {
+    // Files copied whole need nothing more extracted from them
+    const isWhole = (path: string) =>
+      state.files.get(path)?.content !== undefined;
+
+    // Breadth-first, so every entity is recorded at its shortest distance
+    while (state.queue.length > 0 && !state.token?.isCancellationRequested) {
+      const { importInfo, depth } = state.queue.shift()!;
+      if (depth > state.maxDepth || isWhole(importInfo.resolvedPath)) {
+        continue;
+      }
+
+      try {
+        const analysis = await this.analyze(importInfo.resolvedPath);
+        const entities = await this.importedEntities(analysis, importInfo);
+        for (const entity of entities) {
+          await this.addEntity(
+            state,
+            importInfo.resolvedPath,
+            entity,
+            depth,
+            analysis
+          );
+        }
+      } catch (error) {
+        this.outputChannel.appendLine(
+          `Error processing import ${importInfo.source}: ${error}`
+        );
+      }
+    }
+
+    const files = Array.from(state.files.values()).sort(
+      (a, b) => a.depth - b.depth
+    );
+    for (const file of files) {
+      file.entities.sort((a, b) => a.location.start - b.location.start);
+    }
+
+    return { files, processedEntities: state.processedEntities };
+  }
+
+  private async addEntity(
+    state: CollectionState,
+    path: string,
+    entity: ExtractedContent,
+    depth: number,
+    analysis: FileAnalysis
+  ): Promise<void> {
+    const entityKey = `${path}:${entity.name}`;
+    if (state.processedEntities.has(entityKey)) {
+      return;
+    }
+    state.processedEntities.set(entityKey, entity.content);
+
+    let file = state.files.get(path);
+    if (!file) {
+      file = { path, depth, entities: [] };
+      state.files.set(path, file);
+    }
+    file.entities.push({ ...entity, depth });
+
+    for (const reference of entity.references) {
+      // Same-file helpers are needed to understand the entity at any depth
+      const local = analysis.declarations.find((d) => d.name === reference);
+      if (local) {
+        await this.addEntity(state, path, local, depth, analysis);
+        continue;
+      }
+
+      if (depth >= state.maxDepth) {
+        continue;
+      }
+
+      for (const importInfo of await this.importsOf(path, analysis)) {
+        const used = importInfo.imports.filter(
+          (i) => (i.alias ?? i.name) === reference
+        );
+        if (used.length > 0) {
+          this.enqueue(state, {
+            importInfo: { ...importInfo, imports: used },
+            depth: depth + 1,
+          });
+        }
+      }
+    }
+  }
+
+  // Cached across commands until the file changes
+  private analyze(
+    path: string,
+    provider = this.languages.forPath(path)
+  ): Promise<FileAnalysis> {
+    return this.cache.derive(path, "analysis", async () => {
+      const content = await this.cache.readSource(path);
+      return {
+        content,
+        provider,
+        declarations: provider?.extractDeclarations(content, path) ?? [],
+        imports: provider?.parseImports(content, path) ?? [],
+      };
+    });
+  }
+
+  private importedEntities(
+    analysis: FileAnalysis,
+    importInfo: ImportInfo
+  ): Promise<ExtractedContent[]> {
+    const provider = analysis.provider;
+    if (!provider) {
+      return Promise.resolve([]);
+    }
+    return this.cache.derive(
+      importInfo.resolvedPath,
+      `entities:${JSON.stringify(importInfo.imports)}`,
+      () => provider.extractImportedEntities(analysis.content, importInfo)
+    );
+  }
+
+  private async importsOf(
+    path: string,
+    analysis: FileAnalysis
+  ): Promise<ImportInfo[]> {
+    if (!analysis.provider) {
+      return [];
+    }
+    try {
+      return await analysis.provider.resolveImports(analysis.imports, path);
+    } catch (error) {
+      this.outputChannel.appendLine(
+        `Error resolving imports of ${path}: ${error}`
+      );
+      return [];
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import * as path from "path";
+import { CodeExtractor } from "./CodeExtractor";
+import { PythonProvider } from "./PythonProvider";
+import { TypeScriptProvider } from "./TypeScriptProvider";
+import { WorkspaceCache } from "./WorkspaceCache";
+import { LanguageProvider, SourceDocument } from "../types";
+
+export class LanguageRegistry {
+  private providers: LanguageProvider[];
+
+  constructor(extractor: CodeExtractor, cache: WorkspaceCache) {
+    this.providers = [
+      new TypeScriptProvider(extractor, cache),
+      new PythonProvider(cache),
+    ];
+  }
+
+  forDocument(document: SourceDocument): LanguageProvider | undefined {
+    const { languageId } = document;
+    return (
+      (languageId &&
+        this.providers.find((provider) =>
+          provider.languageIds.includes(languageId)
+        )) ||
+      this.forPath(document.fileName)
+    );
+  }
+
+  forPath(filePath: string): LanguageProvider | undefined {
+    const extension = path.extname(filePath).toLowerCase();
+    return this.providers.find((provider) =>
+      provider.extensions.includes(extension)
+    );
+  }
+}
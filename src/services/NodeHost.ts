@@ -0,0 +1,58 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import JSON5 from "json5";
+import { PBCodeConfig, readConfig } from "../utils/config";
+import { Logger, WorkspaceHost } from "../types";
+
+// Keys as written in settings.json, e.g. "pbcode.output.format"
+export type Settings = Record<string, unknown>;
+
+// The `pbcode.*` settings of a workspace's .vscode/settings.json, so bundles
+// built outside the editor match the ones the extension copies
+export async function loadWorkspaceSettings(root: string): Promise<Settings> {
+  try {
+    const settings: Settings = JSON5.parse(
+      await fs.readFile(path.join(root, ".vscode", "settings.json"), "utf-8")
+    );
+    return Object.fromEntries(
+      Object.entries(settings).filter(([key]) => key.startsWith("pbcode."))
+    );
+  } catch {
+    return {};
+  }
+}
+
+// Reads files from disk and resolves everything against one workspace root
+export class NodeHost implements WorkspaceHost {
+  private root: string;
+  private config: PBCodeConfig;
+  trace: Logger;
+
+  constructor(
+    root: string,
+    settings: Settings = {},
+    trace: Logger = { appendLine: () => undefined }
+  ) {
+    this.root = path.resolve(root);
+    this.trace = trace;
+    this.config = readConfig(
+      {
+        get: <T>(key: string, defaultValue: T) =>
+          (settings[`pbcode.${key}`] as T | undefined) ?? defaultValue,
+      },
+      this.root
+    );
+  }
+
+  readFile(filePath: string): Promise<string> {
+    return fs.readFile(filePath, "utf-8");
+  }
+
+  workspaceRoot(): string {
+    return this.root;
+  }
+
+  getConfig(): PBCodeConfig {
+    return this.config;
+  }
+}
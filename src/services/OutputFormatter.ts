@@ -0,0 +1,385 @@
+import * as path from "path";
+import { BundleDiagnostic, BundleFile } from "../types";
+import { ChangeSet } from "../utils/git";
+
+export type OutputFormat = "xml" | "markdown" | "json" | "custom";
+
+// "section" lists each file's problems after it, "inline" adds a comment
+// under each line with a problem
+export type DiagnosticsMode = "off" | "section" | "inline";
+
+export interface FormatOptions {
+  format: OutputFormat;
+  relativePaths: boolean;
+  lineRanges: boolean;
+  // Per-file template for the "custom" format
+  template: string;
+  diagnostics: DiagnosticsMode;
+  workspaceRoot?: string;
+}
+
+export const DEFAULT_TEMPLATE = '<file path="{{path}}">\n{{content}}\n</file>';
+
+const LANGUAGES: Record<string, string> = {
+  ".ts": "typescript",
+  ".mts": "typescript",
+  ".cts": "typescript",
+  ".tsx": "tsx",
+  ".js": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".jsx": "jsx",
+  ".json": "json",
+  ".py": "python",
+};
+
+interface FileBlock {
+  path: string;
+  language: string;
+  content: string;
+  // One-based, inclusive
+  ranges: Array<{ start: number; end: number }>;
+  // Only those inside the copied code
+  diagnostics: BundleDiagnostic[];
+  file: BundleFile;
+}
+
+export function languageForPath(filePath: string): string {
+  return LANGUAGES[path.extname(filePath).toLowerCase()] ?? "";
+}
+
+function fenced(code: string, language: string): string {
+  // The fence must be longer than any backtick run inside the code
+  const longestRun = Math.max(
+    2,
+    ...(code.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const fence = "`".repeat(longestRun + 1);
+  return `${fence}${language}\n${code}\n${fence}`;
+}
+
+// Severity, source and the message on one line
+function describeDiagnostic(diagnostic: BundleDiagnostic): string {
+  const source = [diagnostic.source, diagnostic.code].filter(Boolean).join(" ");
+  return `${diagnostic.severity}${
+    source ? ` (${source})` : ""
+  }: ${diagnostic.message.replace(/\s*\n\s*/g, " ")}`;
+}
+
+export function formatDiagnostic(diagnostic: BundleDiagnostic): string {
+  return `Line ${diagnostic.line + 1}: ${describeDiagnostic(diagnostic)}`;
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/"/g, "&quot;");
+}
+
+// The line of `lines` a problem is on. Extracted declarations can differ from
+// the source, with blank lines collapsed or `export default` dropped, so the
+// problem's source text is looked for nearest to where it would be. Without
+// it, the line is trusted only if the code has as many lines as the source.
+function findDiagnosticLine(
+  lines: string[],
+  firstLine: number,
+  lastLine: number,
+  diagnostic: BundleDiagnostic
+): number | undefined {
+  const expected = diagnostic.line - firstLine;
+  const unchanged = lines.length === lastLine - firstLine + 1;
+  const text = diagnostic.text?.trim();
+  if (!text) {
+    return unchanged ? expected : undefined;
+  }
+
+  const texts = [text, text.replace(/^export\s+(?:default\s+)?/, "")];
+  let found: number | undefined;
+  lines.forEach((line, index) => {
+    if (
+      texts.includes(line.trim()) &&
+      (found === undefined ||
+        Math.abs(index - expected) < Math.abs(found - expected))
+    ) {
+      found = index;
+    }
+  });
+  return found ?? (unchanged ? expected : undefined);
+}
+
+// Inserts a comment under each line with a problem. `firstLine` is the
+// source line of `code`'s first line; problems on lines the code no longer
+// has, such as those in a collapsed body, get their comments at the end.
+function annotateLines(
+  code: string,
+  firstLine: number,
+  lastLine: number,
+  diagnostics: BundleDiagnostic[],
+  commentPrefix: string
+): string {
+  const lines = code.split("\n");
+  const annotated: string[][] = lines.map((line) => [line]);
+
+  for (const diagnostic of diagnostics) {
+    const index = findDiagnosticLine(lines, firstLine, lastLine, diagnostic);
+    if (index === undefined) {
+      annotated[lines.length - 1].push(
+        `${commentPrefix} ${formatDiagnostic(diagnostic)}`
+      );
+    } else {
+      const indent = lines[index].match(/^\s*/)![0];
+      annotated[index].push(
+        `${indent}${commentPrefix} ^ ${describeDiagnostic(diagnostic)}`
+      );
+    }
+  }
+  return annotated.flat().join("\n");
+}
+
+export class OutputFormatter {
+  private options: FormatOptions;
+
+  constructor(options: FormatOptions) {
+    this.options = options;
+  }
+
+  // `changes` puts the diff the files come from ahead of them
+  format(files: BundleFile[], changes?: ChangeSet): string {
+    const blocks = files
+      .map((file) => this.toBlock(file))
+      .filter((block): block is FileBlock => block !== null);
+
+    switch (this.options.format) {
+      case "markdown":
+        return [
+          ...(changes ? [this.formatMarkdownDiff(changes)] : []),
+          ...blocks.map((block) => this.formatMarkdown(block)),
+        ].join("\n\n");
+      case "json":
+        return this.formatJson(blocks, changes);
+      case "custom":
+        return [
+          ...(changes ? [this.formatXmlDiff(changes)] : []),
+          ...blocks.map((block) => this.formatCustom(block)),
+        ]
+          .join("\n")
+          .trim();
+      default:
+        return [
+          ...(changes ? [this.formatXmlDiff(changes)] : []),
+          ...blocks.map((block) => this.formatXml(block)),
+        ]
+          .join("")
+          .trim();
+    }
+  }
+
+  displayPath(filePath: string): string {
+    if (!this.options.relativePaths || !this.options.workspaceRoot) {
+      return filePath;
+    }
+    return path
+      .relative(this.options.workspaceRoot, filePath)
+      .split(path.sep)
+      .join("/");
+  }
+
+  private toBlock(file: BundleFile): FileBlock | null {
+    let content: string;
+    let ranges: FileBlock["ranges"];
+    const inline = this.options.diagnostics === "inline";
+    const commentPrefix = languageForPath(file.path) === "python" ? "#" : "//";
+
+    if (file.content !== undefined) {
+      const lineCount = file.content.replace(/\n$/, "").split("\n").length;
+      content = (
+        inline
+          ? annotateLines(
+              file.content,
+              0,
+              file.content.split("\n").length - 1,
+              file.diagnostics ?? [],
+              commentPrefix
+            )
+          : file.content
+      ).trim();
+      ranges = [{ start: 1, end: lineCount }];
+    } else {
+      let newContent = "";
+      for (const entity of file.entities) {
+        newContent +=
+          (inline
+            ? `\n${annotateLines(
+                entity.content.replace(/^\n/, "").replace(/\n$/, ""),
+                entity.location.start,
+                entity.location.end,
+                this.diagnosticsWithin(file, [entity.location]),
+                commentPrefix
+              )}\n`
+            : entity.content) + "\n";
+      }
+      content = newContent.trim();
+      ranges = file.entities.map((entity) => ({
+        start: entity.location.start + 1,
+        end: entity.location.end + 1,
+      }));
+    }
+
+    if (!content) {
+      return null;
+    }
+    return {
+      path: this.displayPath(file.path),
+      language: languageForPath(file.path),
+      content,
+      ranges,
+      diagnostics:
+        this.options.diagnostics === "off"
+          ? []
+          : this.diagnosticsWithin(
+              file,
+              file.content === undefined
+                ? file.entities.map((entity) => entity.location)
+                : undefined
+            ),
+      file,
+    };
+  }
+
+  // Dependency files only report problems inside the entities copied from
+  // them; `ranges` is undefined for files copied whole
+  private diagnosticsWithin(
+    file: BundleFile,
+    ranges?: Array<{ start: number; end: number }>
+  ): BundleDiagnostic[] {
+    return (file.diagnostics ?? [])
+      .filter(
+        (diagnostic) =>
+          !ranges ||
+          ranges.some(
+            (range) =>
+              range.start <= diagnostic.line && diagnostic.line <= range.end
+          )
+      )
+      .sort((a, b) => a.line - b.line);
+  }
+
+  // The problems listed after a block when they are not already inline
+  private diagnosticsSection(block: FileBlock): string[] {
+    return this.options.diagnostics === "section"
+      ? block.diagnostics.map(formatDiagnostic)
+      : [];
+  }
+
+  private formatRanges(block: FileBlock): string {
+    return block.ranges
+      .map((range) =>
+        range.start === range.end
+          ? `${range.start}`
+          : `${range.start}-${range.end}`
+      )
+      .join(",");
+  }
+
+  private formatXml(block: FileBlock): string {
+    const lines = this.options.lineRanges
+      ? ` lines="${this.formatRanges(block)}"`
+      : "";
+    const problems = this.diagnosticsSection(block);
+    const section =
+      problems.length > 0
+        ? `<diagnostics path="${escapeAttribute(block.path)}">\n${problems.join(
+            "\n"
+          )}\n</diagnostics>\n`
+        : "";
+    return `<file path="${escapeAttribute(block.path)}"${lines}>\n${
+      block.content
+    }\n</file>\n${section}`;
+  }
+
+  private formatXmlDiff(changes: ChangeSet): string {
+    return `<diff label="${escapeAttribute(changes.label)}">\n${
+      changes.patch
+    }\n</diff>\n`;
+  }
+
+  private formatMarkdownDiff(changes: ChangeSet): string {
+    return `${changes.label}\n${fenced(changes.patch, "diff")}`;
+  }
+
+  private formatMarkdown(block: FileBlock): string {
+    const lines = this.options.lineRanges
+      ? ` (lines ${this.formatRanges(block)})`
+      : "";
+    const problems = this.diagnosticsSection(block);
+    const section =
+      problems.length > 0
+        ? `\n\nProblems in \`${block.path}\`:\n${problems
+            .map((problem) => `- ${problem}`)
+            .join("\n")}`
+        : "";
+    return `\`${block.path}\`${lines}\n${fenced(
+      block.content,
+      block.language
+    )}${section}`;
+  }
+
+  private formatJson(blocks: FileBlock[], changes?: ChangeSet): string {
+    // Always structured, whichever way other formats show them
+    const diagnostics = (block: FileBlock) =>
+      block.diagnostics.length > 0
+        ? {
+            diagnostics: block.diagnostics.map((diagnostic) => ({
+              ...diagnostic,
+              line: diagnostic.line + 1,
+            })),
+          }
+        : {};
+    const manifest = {
+      ...(changes
+        ? { diff: { label: changes.label, patch: changes.patch } }
+        : {}),
+      files: blocks.map((block) => {
+        if (block.file.content !== undefined) {
+          return {
+            path: block.path,
+            language: block.language,
+            content: block.content,
+            ...diagnostics(block),
+          };
+        }
+        return {
+          path: block.path,
+          language: block.language,
+          ...diagnostics(block),
+          entities: block.file.entities.map((entity) => ({
+            name: entity.name,
+            kind: entity.kind,
+            ...(this.options.lineRanges
+              ? {
+                  lines: [entity.location.start + 1, entity.location.end + 1],
+                }
+              : {}),
+            content: entity.content.trim(),
+          })),
+        };
+      }),
+    };
+    return JSON.stringify(manifest, null, 2);
+  }
+
+  private formatCustom(block: FileBlock): string {
+    const values: Record<string, string> = {
+      path: block.path,
+      language: block.language,
+      content: block.content,
+      lines: this.options.lineRanges ? this.formatRanges(block) : "",
+      diagnostics: this.diagnosticsSection(block).join("\n"),
+    };
+    return (this.options.template || DEFAULT_TEMPLATE).replace(
+      /{{\s*(\w+)\s*}}/g,
+      (match, key: string) => values[key] ?? match
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  extractPythonDeclarations,
+  outlinePython,
+  parsePythonImports,
+  pythonReferences,
+  sanitizePython,
+} from "../utils/pythonParser";
+import { resolvePythonImports } from "../utils/pythonResolution";
+import { WorkspaceCache } from "./WorkspaceCache";
+import {
+  ExtractedContent,
+  ImportInfo,
+  LanguageProvider,
+  SnippetRange,
+} from "../types";
+
+export class PythonProvider implements LanguageProvider {
+  readonly languageIds = ["python"];
+  readonly extensions = [".py", ".pyi"];
+  private cache: WorkspaceCache;
+
+  constructor(cache: WorkspaceCache) {
+    this.cache = cache;
+  }
+
+  parseImports(sourceCode: string): ImportInfo[] {
+    try {
+      return parsePythonImports(sourceCode);
+    } catch (error) {
+      console.error("Failed to parse imports:", error);
+      return [];
+    }
+  }
+
+  resolveImports(
+    imports: ImportInfo[],
+    currentFilePath: string
+  ): Promise<ImportInfo[]> {
+    return resolvePythonImports(imports, currentFilePath, this.cache);
+  }
+
+  async extractImportedEntities(
+    sourceCode: string,
+    importInfo: ImportInfo
+  ): Promise<ExtractedContent[]> {
+    return this.extractDeclarations(sourceCode).filter((declaration) =>
+      importInfo.imports.some((i) => {
+        if (i.name === "*") {
+          // `from m import *` skips private names
+          return !declaration.name.startsWith("_");
+        }
+        if (i.isNamespace) {
+          return !i.members || i.members.includes(declaration.name);
+        }
+        return i.name === declaration.name;
+      })
+    );
+  }
+
+  extractDeclarations(sourceCode: string): ExtractedContent[] {
+    try {
+      return extractPythonDeclarations(sourceCode);
+    } catch (error) {
+      console.error("Failed to extract declarations:", error);
+      return [];
+    }
+  }
+
+  extractSnippet(
+    sourceCode: string,
+    _filePath: string,
+    range: SnippetRange
+  ): ExtractedContent {
+    return {
+      content: `\n${sourceCode
+        .slice(range.startOffset, range.endOffset)
+        .trim()}\n`,
+      name: `selection:${range.startLine + 1}-${range.endLine + 1}`,
+      kind: "snippet",
+      references: pythonReferences(
+        sanitizePython(sourceCode).slice(range.startOffset, range.endOffset)
+      ),
+      location: {
+        start: range.startLine,
+        end: range.endLine,
+      },
+    };
+  }
+
+  outline(sourceCode: string): string {
+    return outlinePython(sourceCode);
+  }
+}
@@ -1,167 +1,523 @@
 import * as vscode from "vscode";
+import * as path from "path";
+import { formatTokenCount } from "../utils/tokenEstimator";
+import { formatBudgetShare, TokenBudget } from "../utils/tokenBudget";
+import { SizeLimits } from "../utils/config";
+import { UsageMode } from "./ReverseDependencyFinder";
+import { PromptTemplate } from "../utils/promptTemplates";
+import { ProposedChange } from "./ResponseApplier";
+import { HistoryEntry } from "./BundleHistory";
+import { ImportInfo, ImportKind } from "../types";
 
-const SIZE_LIMITS = {
-  OPTIMAL: 1000,
-  WARNING: 2000,
-  CRITICAL: 3000,
-};
+const DEPTH_CHOICES = [1, 2, 3, 4, 5];
 
-function getSizeIndicator(lineCount: number): {
+function getSizeIndicator(
+  tokenCount: number,
+  budget: TokenBudget,
+  limits: SizeLimits
+): {
   message: string;
   icon: string;
 } {
-  if (lineCount <= SIZE_LIMITS.OPTIMAL) {
+  const share = tokenCount / budget.tokens;
+  if (share <= limits.optimal) {
     return {
-      message: "Optimal size for AI assistance",
+      message: `Fits comfortably in the ${budget.model} budget`,
       icon: "$(pass-filled)",
     };
-  } else if (lineCount <= SIZE_LIMITS.WARNING) {
+  } else if (share <= limits.warning) {
     return {
-      message: "Large file - Consider selecting specific sections",
+      message: `Uses most of the ${budget.model} budget - Consider Auto-Fit`,
       icon: "$(warning)",
     };
   } else {
     return {
-      message: "Very large file - AI assistance may be limited",
+      message: `Exceeds the ${budget.model} budget - Use Auto-Fit or select files`,
       icon: "$(error)",
     };
   }
 }
 
-export interface FileItem extends vscode.QuickPickItem {
-  path: string;
-  content: string;
-  lineCount: number;
+function describeSize(
+  lineCount: number,
+  tokenCount: number,
+  budget: TokenBudget
+): string {
+  return `${lineCount} lines · ~${formatTokenCount(
+    tokenCount
+  )} tokens (${formatBudgetShare(tokenCount, budget)})`;
+}
+
+const IMPORT_KIND_LABELS: Partial<Record<ImportKind, string>> = {
+  type: "type-only",
+  dynamic: "lazy",
+  require: "require",
+  "re-export": "re-exported",
+};
+
+// e.g. "2 type-only, 1 lazy"; plain static imports are not listed
+function describeImportKinds(imports: ImportInfo[]): string {
+  const counts = new Map<string, number>();
+  for (const { kind } of imports) {
+    const label = kind && IMPORT_KIND_LABELS[kind];
+    if (label) {
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .map(([label, count]) => `${count} ${label}`)
+    .join(", ");
 }
 
+export interface SizeSummary {
+  lines: number;
+  tokens: number;
+}
+
+export type CopyMode =
+  | "current"
+  | "symbol"
+  | "all"
+  | "auto-fit"
+  | "preview"
+  | "callers"
+  | "tests";
+
 export interface CopyOption {
   label: string;
   description: string;
   detail?: string;
-  value: "current" | "all" | "selected";
+  value: CopyMode;
+}
+
+export type ChangeScope = "uncommitted" | "branch";
+
+export interface ChangeScopeOption extends vscode.QuickPickItem {
+  scope: ChangeScope;
+}
+
+export interface DepthOption extends vscode.QuickPickItem {
+  depth: number;
+}
+
+export interface DetailOption extends vscode.QuickPickItem {
+  outline: boolean;
+}
+
+export interface PromptTemplateOption extends vscode.QuickPickItem {
+  // Undefined for the bundle on its own
+  template?: PromptTemplate;
+}
+
+export type ResponseSource = "clipboard" | "editor";
+
+export interface ResponseSourceOption extends vscode.QuickPickItem {
+  source: ResponseSource;
+}
+
+export interface ProposedChangeOption extends vscode.QuickPickItem {
+  change: ProposedChange;
+}
+
+export interface HistoryEntryOption extends vscode.QuickPickItem {
+  entry: HistoryEntry;
+}
+
+export type HistoryAction = "copy" | "delta";
+
+export interface HistoryActionOption extends vscode.QuickPickItem {
+  action: HistoryAction;
+}
+
+export interface CallerTargetOption extends vscode.QuickPickItem {
+  // Undefined for importers of the whole file
+  symbol?: string;
+}
+
+export interface UsageModeOption extends vscode.QuickPickItem {
+  mode: UsageMode;
 }
 
 export class QuickPickService {
   static async showCopyOptions(
-    currentFileLines: number,
-    totalRelatedLines: number,
-    importCount: number
+    currentFile: SizeSummary,
+    allRelated: SizeSummary,
+    relatedImports: ImportInfo[],
+    budget: TokenBudget,
+    limits: SizeLimits,
+    symbolLabel?: string,
+    relatedTests: string[] = []
   ): Promise<CopyOption | undefined> {
-    const currentSizeIndicator = getSizeIndicator(currentFileLines);
-    const allFilesSizeIndicator = getSizeIndicator(totalRelatedLines);
+    const currentSizeIndicator = getSizeIndicator(
+      currentFile.tokens,
+      budget,
+      limits
+    );
+    const allFilesSizeIndicator = getSizeIndicator(
+      allRelated.tokens,
+      budget,
+      limits
+    );
+    const importCount = new Set(relatedImports.map((i) => i.resolvedPath)).size;
+    const importKinds = describeImportKinds(relatedImports);
 
     const options: CopyOption[] = [
       {
         label: "$(file) Current File Only",
-        description: `${currentFileLines} lines`,
+        description: describeSize(
+          currentFile.lines,
+          currentFile.tokens,
+          budget
+        ),
         detail: `${currentSizeIndicator.icon} ${currentSizeIndicator.message}`,
         value: "current",
       },
+      ...(symbolLabel
+        ? [
+            {
+              label: `$(symbol-field) ${symbolLabel}`,
+              description: "Only the code it uses, with its dependencies",
+              value: "symbol" as const,
+            },
+          ]
+        : []),
       {
         label: "$(files) All Related Imports",
-        description: `${totalRelatedLines} lines total from ${
-          importCount + 1
-        } files`,
-        detail: `${allFilesSizeIndicator.icon} ${allFilesSizeIndicator.message}`,
+        description: `${describeSize(
+          allRelated.lines,
+          allRelated.tokens,
+          budget
+        )} from ${importCount + 1} files`,
+        detail: `${allFilesSizeIndicator.icon} ${
+          allFilesSizeIndicator.message
+        }${importKinds ? ` · ${importKinds}` : ""}`,
         value: "all",
       },
       {
-        label: "$(list-selection) Select Files",
-        description: "Choose which files to copy",
-        value: "selected",
+        label: "$(fold) Auto-Fit to Budget",
+        description: `Collapse or drop the furthest dependencies to fit ~${formatTokenCount(
+          budget.tokens
+        )} tokens`,
+        value: "auto-fit",
+      },
+      {
+        label: "$(references) Include Importers",
+        description: "Files that import this file, with their usage sites",
+        value: "callers",
+      },
+      {
+        label: "$(list-tree) Preview Bundle",
+        description:
+          "Choose files and entities in the PBCode preview, then copy",
+        value: "preview",
       },
     ];
 
-    return vscode.window.showQuickPick(options, {
+    const testOptions: (CopyOption | vscode.QuickPickItem)[] =
+      relatedTests.length > 0
+        ? [
+            { label: "Tests", kind: vscode.QuickPickItemKind.Separator },
+            {
+              label: `$(beaker) With ${relatedTests.length} Related Test${
+                relatedTests.length === 1 ? "" : "s"
+              }`,
+              description: relatedTests
+                .map((test) => path.basename(test))
+                .join(", "),
+              detail:
+                "Tests copied whole, with the current file and its imports",
+              value: "tests",
+            },
+          ]
+        : [];
+
+    // Separators cannot be picked, so anything picked is a copy option
+    return vscode.window.showQuickPick([...options, ...testOptions], {
       placeHolder: "Choose what to copy",
       title: "PBCode Copy Options",
-    });
+    }) as Thenable<CopyOption | undefined>;
   }
 
-  static async showFileSelector(
-    mainFile: vscode.TextDocument,
-    resolvedImports: any[]
-  ): Promise<FileItem[] | undefined> {
-    const fileItems = await this.prepareFileItems(mainFile, resolvedImports);
-    const quickPick = vscode.window.createQuickPick();
-    quickPick.items = fileItems;
-    quickPick.canSelectMany = true;
-    quickPick.title = "Select Files to Copy";
-    quickPick.placeholder = "Space to select, Enter to confirm";
+  static async showPromptTemplatePicker(
+    templates: PromptTemplate[]
+  ): Promise<PromptTemplateOption | undefined> {
+    const options: PromptTemplateOption[] = [
+      {
+        label: "$(copy) Bundle Only",
+        description: "Copy the bundle without a prompt",
+      },
+      ...templates.map((template) => ({
+        label: `$(comment) ${template.name}`,
+        description: template.description,
+        template,
+      })),
+    ];
 
-    let selectedFiles: FileItem[] = [];
+    return vscode.window.showQuickPick(options, {
+      placeHolder: "Wrap the bundle in a prompt?",
+      title: "PBCode Prompt Template",
+    });
+  }
+
+  static async showResponseSourcePicker(
+    editorLabel: string
+  ): Promise<ResponseSource | undefined> {
+    const options: ResponseSourceOption[] = [
+      {
+        label: "$(clippy) Clipboard",
+        description: "A response copied from the chat",
+        source: "clipboard",
+      },
+      {
+        label: "$(file) Active Editor",
+        description: editorLabel,
+        source: "editor",
+      },
+    ];
 
-    quickPick.onDidChangeSelection((items) => {
-      selectedFiles = items as FileItem[];
-      const totalLines = this.calculateTotalLines(selectedFiles);
-      const indicator = getSizeIndicator(totalLines);
-      quickPick.title = `Total: ${totalLines} lines - ${indicator.message}`;
+    const selected = await vscode.window.showQuickPick(options, {
+      placeHolder: "Where is the response?",
+      title: "PBCode Apply Response",
     });
+    return selected?.source;
+  }
+
+  // Every change starts checked; `onActive` runs for the highlighted one so
+  // its diff can be shown
+  static async showProposedChanges(
+    changes: ProposedChange[],
+    onActive: (change: ProposedChange) => void
+  ): Promise<ProposedChange[] | undefined> {
+    const options: ProposedChangeOption[] = changes.map((change) => ({
+      label: change.label,
+      description: !change.document
+        ? "New file"
+        : change.entities
+        ? `Replaces ${change.entities.join(", ")}`
+        : "Whole file",
+      change,
+    }));
 
-    const result = await new Promise<FileItem[] | undefined>((resolve) => {
+    const quickPick = vscode.window.createQuickPick<ProposedChangeOption>();
+    quickPick.title = "PBCode Apply Response";
+    quickPick.placeholder =
+      "Uncheck changes to skip, then press Enter to apply the rest";
+    quickPick.canSelectMany = true;
+    // Diffs open beside the picker without closing it
+    quickPick.ignoreFocusOut = true;
+    quickPick.items = options;
+    quickPick.selectedItems = options;
+
+    return new Promise((resolve) => {
+      quickPick.onDidChangeActive(([active]) => {
+        if (active) {
+          onActive(active.change);
+        }
+      });
       quickPick.onDidAccept(() => {
-        resolve(selectedFiles);
+        resolve(quickPick.selectedItems.map((option) => option.change));
         quickPick.hide();
       });
-      quickPick.onDidHide(() => resolve(undefined));
+      quickPick.onDidHide(() => {
+        resolve(undefined);
+        quickPick.dispose();
+      });
       quickPick.show();
     });
-
-    return result;
   }
 
-  private static calculateTotalLines(files: FileItem[]): number {
-    return files.reduce((total, file) => total + file.lineCount, 0);
+  static async showHistoryPicker(
+    entries: HistoryEntry[]
+  ): Promise<HistoryEntry | undefined> {
+    const options: HistoryEntryOption[] = entries.map((entry) => {
+      const [first, ...others] = entry.rootFiles.map((file) =>
+        vscode.workspace.asRelativePath(file)
+      );
+      const entityCount = entry.entities.length;
+      return {
+        label: `${first ?? "No files"}${
+          others.length > 0 ? ` +${others.length} more` : ""
+        }`,
+        description: `${entry.mode} · ${new Date(
+          entry.timestamp
+        ).toLocaleString()}`,
+        detail: `${entityCount} entities · ~${formatTokenCount(
+          entry.tokens
+        )} tokens`,
+        entry,
+      };
+    });
+
+    const selected = await vscode.window.showQuickPick(options, {
+      placeHolder: "Choose an earlier bundle",
+      title: "PBCode Bundle History",
+      matchOnDescription: true,
+    });
+    return selected?.entry;
   }
 
-  private static async prepareFileItems(
-    mainFile: vscode.TextDocument,
-    resolvedImports: any[]
-  ): Promise<FileItem[]> {
-    let totalLines = mainFile.getText().split("\n").length;
-    const fileItems: FileItem[] = [
-      {
-        label: "$(file) " + vscode.workspace.asRelativePath(mainFile.fileName),
-        description: `${mainFile.lineCount} lines`,
-        detail: getSizeIndicator(mainFile.lineCount).message,
-        path: mainFile.fileName,
-        content: mainFile.getText(),
-        lineCount: mainFile.lineCount,
-        picked: true,
+  static async showHistoryActionPicker(): Promise<HistoryAction | undefined> {
+    const options: HistoryActionOption[] = [
+      {
+        label: "$(copy) Copy Again",
+        description: "The bundle exactly as it was copied",
+        action: "copy",
+      },
+      {
+        label: "$(diff) Copy What Changed Since",
+        description: "Only the files and entities whose code is different now",
+        action: "delta",
       },
     ];
 
-    for (const importInfo of resolvedImports) {
-      const relativePath = vscode.workspace.asRelativePath(
-        importInfo.resolvedPath
-      );
-      try {
-        const doc = await vscode.workspace.openTextDocument(
-          vscode.Uri.file(importInfo.resolvedPath)
-        );
-        const docLineCount = doc.getText().split("\n").length;
-        totalLines += docLineCount;
-        fileItems.push({
-          label: "$(file) " + relativePath,
-          description: `${docLineCount} lines`,
-          detail: getSizeIndicator(docLineCount).message,
-          path: importInfo.resolvedPath,
-          content: doc.getText(),
-          lineCount: docLineCount,
-        });
-      } catch (error) {
-        console.error(`Error loading file ${relativePath}:`, error);
-      }
-    }
+    const selected = await vscode.window.showQuickPick(options, {
+      placeHolder: "What should be copied?",
+      title: "PBCode Bundle History",
+    });
+    return selected?.action;
+  }
 
-    // Update the total line count for all files
-    const firstItem = fileItems[0];
-    if (firstItem) {
-      firstItem.detail = `Total: ${totalLines} lines - ${
-        getSizeIndicator(totalLines).message
-      }`;
+  // `maxDepth` of 0 also offers following every import
+  static async showDepthPicker(maxDepth = 0): Promise<number | undefined> {
+    const depths =
+      maxDepth > 0
+        ? Array.from(
+            new Set([...DEPTH_CHOICES.filter((d) => d < maxDepth), maxDepth])
+          )
+        : DEPTH_CHOICES;
+    const options: DepthOption[] = depths.map((depth) => ({
+      label: `${depth}`,
+      description:
+        depth === 1
+          ? "Direct imports only"
+          : `Follow imports ${depth} levels deep`,
+      depth,
+    }));
+    if (maxDepth === 0) {
+      options.push({
+        label: "Unlimited",
+        description: "Follow every import until the closure is complete",
+        depth: Number.POSITIVE_INFINITY,
+      });
     }
 
-    return fileItems;
+    const selected = await vscode.window.showQuickPick(options, {
+      placeHolder: "How deep should imports be followed?",
+      title: "PBCode Dependency Depth",
+    });
+    return selected?.depth;
+  }
+
+  // Whether dependency entities should be copied as signatures only
+  static async showDetailPicker(): Promise<boolean | undefined> {
+    const options: DetailOption[] = [
+      {
+        label: "$(code) Full Code",
+        description: "Copy dependency entities in full",
+        outline: false,
+      },
+      {
+        label: "$(symbol-interface) Signatures Only",
+        description:
+          "Replace dependency function and method bodies with { ... }",
+        outline: true,
+      },
+    ];
+
+    const selected = await vscode.window.showQuickPick(options, {
+      placeHolder: "How much of each dependency should be copied?",
+      title: "PBCode Dependency Detail",
+    });
+    return selected?.outline;
+  }
+
+  static async showCallerTargetPicker(
+    symbols: string[],
+    activeSymbol?: string
+  ): Promise<CallerTargetOption | undefined> {
+    const options: CallerTargetOption[] = [
+      {
+        label: "$(file) Whole File",
+        description: "Every file importing anything from it",
+      },
+      ...symbols.map((symbol) => ({
+        label: `$(symbol-field) ${symbol}`,
+        description: symbol === activeSymbol ? "At the cursor" : undefined,
+        symbol,
+      })),
+    ];
+
+    const quickPick = vscode.window.createQuickPick<CallerTargetOption>();
+    quickPick.items = options;
+    quickPick.activeItems = options.filter(
+      (option) => activeSymbol && option.symbol === activeSymbol
+    );
+    quickPick.title = "PBCode Importers";
+    quickPick.placeholder = "Find importers of the file or of one symbol";
+
+    return new Promise<CallerTargetOption | undefined>((resolve) => {
+      quickPick.onDidAccept(() => {
+        resolve(quickPick.selectedItems[0]);
+        quickPick.hide();
+      });
+      quickPick.onDidHide(() => {
+        resolve(undefined);
+        quickPick.dispose();
+      });
+      quickPick.show();
+    });
+  }
+
+  static async showUsageModePicker(
+    contextLines: number
+  ): Promise<UsageMode | undefined> {
+    const options: UsageModeOption[] = [
+      {
+        label: "$(symbol-method) Enclosing Declarations",
+        description: "The whole function or class around each usage",
+        mode: "declaration",
+      },
+      {
+        label: "$(list-flat) Context Windows",
+        description: `${contextLines} lines around each usage`,
+        mode: "context",
+      },
+    ];
+
+    const selected = await vscode.window.showQuickPick(options, {
+      placeHolder: "How much of each importer should be copied?",
+      title: "PBCode Usage Sites",
+    });
+    return selected?.mode;
+  }
+
+  static async showChangeScopePicker(): Promise<ChangeScope | undefined> {
+    const options: ChangeScopeOption[] = [
+      {
+        label: "$(edit) Uncommitted Changes",
+        description: "Working tree and staged changes against HEAD",
+        scope: "uncommitted",
+      },
+      {
+        label: "$(git-branch) Branch Changes",
+        description: "Everything since the branch point with another branch",
+        scope: "branch",
+      },
+    ];
+
+    const selected = await vscode.window.showQuickPick(options, {
+      placeHolder: "Which changes should be copied?",
+      title: "PBCode Changes",
+    });
+    return selected?.scope;
+  }
+
+  static async showBranchPicker(
+    branches: string[]
+  ): Promise<string | undefined> {
+    return vscode.window.showQuickPick(branches, {
+      placeHolder: "Compare against which branch?",
+      title: "PBCode Base Branch",
+    });
   }
 }
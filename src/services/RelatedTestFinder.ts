@@ -0,0 +1,127 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { LanguageRegistry } from "./LanguageRegistry";
+import { WorkspaceCache } from "./WorkspaceCache";
+import { isExcluded } from "../utils/glob";
+import { importHints, mayImport } from "../utils/importHints";
+
+const EXCLUDE_GLOB = "**/{node_modules,out,dist,build,.git}/**";
+
+export interface TestSearchOptions {
+  // Workspace-relative globs of test files
+  patterns: string[];
+  // Workspace-relative globs for files never followed or bundled
+  exclude: string[];
+}
+
+// "foo" for foo.ts, foo.test.ts, foo.spec.tsx, test_foo.py and foo_test.py
+function testSubject(filePath: string): string {
+  return path
+    .basename(filePath)
+    .replace(/\.[^.]+$/, "")
+    .replace(/\.(test|spec)$/, "")
+    .replace(/^test_|_test$/, "");
+}
+
+export class RelatedTestFinder {
+  private languages: LanguageRegistry;
+  private cache: WorkspaceCache;
+  private outputChannel: vscode.OutputChannel;
+
+  constructor(
+    languages: LanguageRegistry,
+    cache: WorkspaceCache,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this.languages = languages;
+    this.cache = cache;
+    this.outputChannel = outputChannel;
+  }
+
+  // Test files named after the target next to it or in a sibling __tests__
+  // folder, then any other test file that imports it
+  async findTests(
+    target: vscode.TextDocument,
+    options: TestSearchOptions,
+    token?: vscode.CancellationToken
+  ): Promise<string[]> {
+    const folder = vscode.workspace.getWorkspaceFolder(target.uri);
+    if (!folder || options.patterns.length === 0) {
+      return [];
+    }
+
+    const matches = await Promise.all(
+      options.patterns.map((pattern) =>
+        vscode.workspace.findFiles(
+          new vscode.RelativePattern(folder, pattern),
+          EXCLUDE_GLOB,
+          undefined,
+          token
+        )
+      )
+    );
+    const candidates = Array.from(
+      new Set(matches.flat().map((uri) => uri.fsPath))
+    )
+      .filter(
+        (candidate) =>
+          candidate !== target.fileName &&
+          !isExcluded(candidate, folder.uri.fsPath, options.exclude)
+      )
+      .sort();
+
+    const directory = path.dirname(target.fileName);
+    const subject = testSubject(target.fileName);
+    const named = candidates.filter(
+      (candidate) =>
+        testSubject(candidate) === subject &&
+        [directory, path.join(directory, "__tests__")].includes(
+          path.dirname(candidate)
+        )
+    );
+
+    const hints = await importHints(target.fileName, folder.uri.fsPath);
+    const importers: string[] = [];
+    for (const candidate of candidates) {
+      if (token?.isCancellationRequested) {
+        break;
+      }
+      if (
+        !named.includes(candidate) &&
+        (await this.importsTarget(candidate, target.fileName, hints))
+      ) {
+        importers.push(candidate);
+      }
+    }
+    return [...named, ...importers];
+  }
+
+  private async importsTarget(
+    testPath: string,
+    targetPath: string,
+    hints: string[]
+  ): Promise<boolean> {
+    const provider = this.languages.forPath(testPath);
+    if (!provider) {
+      return false;
+    }
+
+    try {
+      const content = await this.cache.readSource(testPath);
+      if (!mayImport(content, hints)) {
+        return false;
+      }
+
+      const imports = await provider.resolveImports(
+        provider.parseImports(content, testPath),
+        testPath
+      );
+      return imports.some((i) => i.resolvedPath === targetPath);
+    } catch (error) {
+      this.outputChannel.appendLine(
+        `Error scanning ${testPath} for imports: ${error}`
+      );
+      return false;
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import * as vscode from "vscode";
+import { LanguageRegistry } from "./LanguageRegistry";
+import { fileExists } from "../utils/fsUtils";
+import {
+  mergeSnippet,
+  parseResponse,
+  resolveResponsePath,
+} from "../utils/responseParser";
+
+export interface ProposedChange {
+  uri: vscode.Uri;
+  // Workspace-relative, for display
+  label: string;
+  // Undefined for a file the response creates
+  document?: vscode.TextDocument;
+  content: string;
+  // Declarations replaced or added when the response only showed some of
+  // the file; undefined when the whole file is replaced
+  entities?: string[];
+}
+
+export interface ResponsePlan {
+  changes: ProposedChange[];
+  // Paths outside the workspace, as written in the response
+  rejected: string[];
+}
+
+// Turns the files in an AI response into reviewable changes. Also serves
+// the proposed content to diff editors.
+export class ResponseApplier implements vscode.TextDocumentContentProvider {
+  static readonly scheme = "pbcode-proposed";
+
+  private languages: LanguageRegistry;
+  private outputChannel: vscode.OutputChannel;
+  private proposals = new Map<string, string>();
+  private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  // Diff editors already open on a file show its latest proposal
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    languages: LanguageRegistry,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this.languages = languages;
+    this.outputChannel = outputChannel;
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.proposals.get(uri.path) ?? "";
+  }
+
+  // Relative paths resolve against `folder`; absolute ones must be inside
+  // one of the workspace folders
+  async plan(
+    response: string,
+    folder: vscode.WorkspaceFolder
+  ): Promise<ResponsePlan> {
+    const changes = new Map<string, ProposedChange>();
+    const rejected: string[] = [];
+    this.proposals.clear();
+
+    const roots = (vscode.workspace.workspaceFolders ?? []).map(
+      (workspaceFolder) => workspaceFolder.uri.fsPath
+    );
+
+    for (const block of parseResponse(response)) {
+      const filePath = resolveResponsePath(
+        block.path,
+        folder.uri.fsPath,
+        roots
+      );
+      if (!filePath) {
+        this.outputChannel.appendLine(
+          `Rejected ${block.path}: outside the workspace`
+        );
+        rejected.push(block.path);
+        continue;
+      }
+      const uri = vscode.Uri.file(filePath);
+
+      // Later blocks for the same file apply on top of earlier ones
+      const previous = changes.get(filePath);
+      const document =
+        previous?.document ??
+        ((await fileExists(filePath))
+          ? await vscode.workspace.openTextDocument(uri)
+          : undefined);
+      const current = previous?.content ?? document?.getText();
+      const provider = this.languages.forPath(filePath);
+      const merged =
+        current !== undefined && provider
+          ? mergeSnippet(current, block.content, filePath, provider)
+          : undefined;
+
+      changes.set(filePath, {
+        uri,
+        label: vscode.workspace.asRelativePath(uri, true),
+        document,
+        // Code blocks drop the file's final newline
+        content: merged?.content ?? block.content.replace(/\n*$/, "\n"),
+        // Still a whole-file change if an earlier block replaced the file
+        entities:
+          merged && (!previous || previous.entities)
+            ? [...(previous?.entities ?? []), ...merged.entities]
+            : undefined,
+      });
+    }
+    return { changes: Array.from(changes.values()), rejected };
+  }
+
+  async showDiff(change: ProposedChange): Promise<void> {
+    const proposed = vscode.Uri.from({
+      scheme: ResponseApplier.scheme,
+      path: change.uri.path,
+    });
+    this.proposals.set(proposed.path, change.content);
+    this.changeEmitter.fire(proposed);
+    // New files are compared with an empty document
+    const original = change.document
+      ? change.uri
+      : proposed.with({ path: `${proposed.path}.empty` });
+
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      original,
+      proposed,
+      `${change.label} (Proposed)`,
+      { preview: true, preserveFocus: true }
+    );
+  }
+
+  // One edit, so a single undo reverts every file
+  async apply(changes: ProposedChange[]): Promise<boolean> {
+    const edit = new vscode.WorkspaceEdit();
+    for (const change of changes) {
+      if (change.document) {
+        const { document } = change;
+        edit.replace(
+          change.uri,
+          new vscode.Range(
+            new vscode.Position(0, 0),
+            document.lineAt(document.lineCount - 1).range.end
+          ),
+          change.content
+        );
+      } else {
+        edit.createFile(change.uri, { ignoreIfExists: true });
+        edit.insert(change.uri, new vscode.Position(0, 0), change.content);
+      }
+    }
+    return vscode.workspace.applyEdit(edit);
+  }
+}
@@ -0,0 +1,331 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { simpleTraverse, TSESTree } from "@typescript-eslint/typescript-estree";
+import { CodeExtractor } from "./CodeExtractor";
+import { WorkspaceCache } from "./WorkspaceCache";
+import { parseImports } from "../utils/importParser";
+import { resolveImportPaths } from "../utils/pathResolution";
+import { isPropertyName, parseSource } from "../utils/astUtils";
+import { isExcluded } from "../utils/glob";
+import { importHints, mayImport } from "../utils/importHints";
+import {
+  BundleFile,
+  DependencyClosure,
+  ExtractedContent,
+  ImportInfo,
+} from "../types";
+
+const SOURCE_GLOB = "**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}";
+const EXCLUDE_GLOB = "**/{node_modules,out,dist,build,.git}/**";
+
+export type UsageMode = "declaration" | "context";
+
+export interface CallerOptions {
+  // Exported name to look for; undefined means any import of the file
+  symbol?: string;
+  // Whether `symbol` is the file's default export
+  symbolIsDefault?: boolean;
+  mode: UsageMode;
+  contextLines: number;
+  maxUsagesPerCaller: number;
+  // Workspace-relative globs of files never searched
+  exclude: string[];
+}
+
+// The names a `require()` or `import()` result is bound to, which are part
+// of the import rather than uses of it
+function isBindingName(
+  node: TSESTree.Node,
+  parent: TSESTree.Node | undefined
+): boolean {
+  return (
+    (parent?.type === "VariableDeclarator" && parent.id === node) ||
+    (parent?.type === "TSImportEqualsDeclaration" && parent.id === node) ||
+    (parent?.type === "Property" &&
+      parent.value === node &&
+      parent.parent?.type === "ObjectPattern")
+  );
+}
+
+interface UsageSite {
+  line: number;
+}
+
+export class ReverseDependencyFinder {
+  private extractor: CodeExtractor;
+  private cache: WorkspaceCache;
+  private outputChannel: vscode.OutputChannel;
+
+  constructor(
+    extractor: CodeExtractor,
+    cache: WorkspaceCache,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this.extractor = extractor;
+    this.cache = cache;
+    this.outputChannel = outputChannel;
+  }
+
+  async findCallers(
+    target: vscode.TextDocument,
+    options: CallerOptions,
+    token?: vscode.CancellationToken
+  ): Promise<DependencyClosure> {
+    const files: BundleFile[] = [
+      {
+        path: target.fileName,
+        depth: 0,
+        content: target.getText(),
+        entities: [],
+      },
+    ];
+    const processedEntities = new Map<string, string>();
+
+    const candidates = await vscode.workspace.findFiles(
+      SOURCE_GLOB,
+      EXCLUDE_GLOB,
+      undefined,
+      token
+    );
+    const workspaceRoot =
+      this.cache.host.workspaceRoot(target.fileName) ??
+      path.dirname(target.fileName);
+    const hints = new Set(await importHints(target.fileName, workspaceRoot));
+    // The target and the files re-exporting it, directly or through another
+    const barrels = new Set([target.fileName]);
+
+    let pending = candidates
+      .filter((candidate) => {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(candidate);
+        return (
+          candidate.fsPath !== target.fileName &&
+          !(
+            workspaceFolder &&
+            isExcluded(
+              candidate.fsPath,
+              workspaceFolder.uri.fsPath,
+              options.exclude
+            )
+          )
+        );
+      })
+      .map((candidate) => candidate.fsPath);
+    while (pending.length > 0 && !token?.isCancellationRequested) {
+      const skipped: string[] = [];
+      const found: string[] = [];
+
+      for (const callerPath of pending) {
+        if (token?.isCancellationRequested) {
+          break;
+        }
+        try {
+          const content = await this.cache.readSource(callerPath);
+          if (!mayImport(content, Array.from(hints))) {
+            skipped.push(callerPath);
+            continue;
+          }
+
+          const resolvedImports = await resolveImportPaths(
+            parseImports(content, callerPath),
+            callerPath,
+            this.cache
+          );
+          if (
+            resolvedImports.some(
+              (importInfo) =>
+                importInfo.kind === "re-export" &&
+                barrels.has(importInfo.resolvedPath)
+            )
+          ) {
+            barrels.add(callerPath);
+            found.push(callerPath);
+          }
+
+          const usages = this.findUsages(
+            content,
+            callerPath,
+            resolvedImports,
+            target.fileName,
+            options
+          );
+          if (usages.length === 0) {
+            continue;
+          }
+
+          const entities = this.usageEntities(
+            content,
+            callerPath,
+            usages,
+            options
+          );
+          for (const entity of entities) {
+            processedEntities.set(
+              `${callerPath}:${entity.name}`,
+              entity.content
+            );
+          }
+          files.push({
+            path: callerPath,
+            depth: 1,
+            entities: entities.map((entity) => ({ ...entity, depth: 1 })),
+          });
+        } catch (error) {
+          this.outputChannel.appendLine(
+            `Error scanning ${callerPath} for importers: ${error}`
+          );
+        }
+      }
+
+      // Files skipped so far may import the target through a barrel found
+      // since, by that barrel's name
+      const added = (
+        await Promise.all(
+          found.map((barrel) => importHints(barrel, workspaceRoot))
+        )
+      )
+        .flat()
+        .filter((hint) => !hints.has(hint));
+      added.forEach((hint) => hints.add(hint));
+      pending = added.length > 0 ? skipped : [];
+    }
+
+    return { files, processedEntities };
+  }
+
+  private importsTarget(
+    importInfo: ImportInfo,
+    targetPath: string,
+    options: CallerOptions
+  ): ImportInfo | null {
+    if (importInfo.resolvedPath !== targetPath) {
+      return null;
+    }
+    if (!options.symbol) {
+      return importInfo;
+    }
+
+    const imports = importInfo.imports.filter((i) => {
+      if (i.isNamespace) {
+        return !i.members || i.members.includes(options.symbol!);
+      }
+      if (i.isDefault) {
+        return !!options.symbolIsDefault;
+      }
+      return i.name === options.symbol;
+    });
+    return imports.length > 0 ? { ...importInfo, imports } : null;
+  }
+
+  private findUsages(
+    content: string,
+    callerPath: string,
+    resolvedImports: ImportInfo[],
+    targetPath: string,
+    options: CallerOptions
+  ): UsageSite[] {
+    const targetImports = resolvedImports
+      .map((importInfo) => this.importsTarget(importInfo, targetPath, options))
+      .filter((importInfo): importInfo is ImportInfo => importInfo !== null);
+    if (targetImports.length === 0) {
+      return [];
+    }
+
+    const localNames = new Set<string>();
+    const namespaces = new Set<string>();
+    for (const declaration of targetImports.flatMap((i) => i.imports)) {
+      if (declaration.isNamespace && options.symbol) {
+        namespaces.add(declaration.name);
+      } else {
+        localNames.add(declaration.alias ?? declaration.name);
+      }
+    }
+
+    const usages: UsageSite[] = [];
+    const ast = parseSource(content, callerPath);
+    simpleTraverse(
+      ast,
+      {
+        enter(node, parent) {
+          if (
+            (node.type !== "Identifier" && node.type !== "JSXIdentifier") ||
+            parent?.type === "ImportSpecifier" ||
+            parent?.type === "ImportDefaultSpecifier" ||
+            parent?.type === "ImportNamespaceSpecifier" ||
+            isPropertyName(node, parent) ||
+            isBindingName(node, parent)
+          ) {
+            return;
+          }
+
+          if (localNames.has(node.name)) {
+            usages.push({ line: node.loc.start.line - 1 });
+          } else if (
+            namespaces.has(node.name) &&
+            parent?.type === "MemberExpression" &&
+            parent.object === node &&
+            parent.property.type === "Identifier" &&
+            parent.property.name === options.symbol
+          ) {
+            usages.push({ line: node.loc.start.line - 1 });
+          }
+        },
+      },
+      true
+    );
+
+    return usages;
+  }
+
+  private usageEntities(
+    content: string,
+    callerPath: string,
+    usages: UsageSite[],
+    options: CallerOptions
+  ): ExtractedContent[] {
+    const lines = content.split("\n");
+    const declarations =
+      options.mode === "declaration"
+        ? this.extractor.extractDeclarations(content, callerPath)
+        : [];
+
+    const entities: ExtractedContent[] = [];
+    for (const usage of usages) {
+      if (entities.length >= options.maxUsagesPerCaller) {
+        break;
+      }
+      if (
+        entities.some(
+          (entity) =>
+            entity.location.start <= usage.line &&
+            usage.line <= entity.location.end
+        )
+      ) {
+        continue;
+      }
+
+      // Module-level code outside any declaration falls back to a window
+      const declaration = declarations.find(
+        (d) => d.location.start <= usage.line && usage.line <= d.location.end
+      );
+      if (declaration) {
+        entities.push(declaration);
+        continue;
+      }
+
+      const start = Math.max(0, usage.line - options.contextLines);
+      const end = Math.min(lines.length - 1, usage.line + options.contextLines);
+      entities.push({
+        name: `usage:${start + 1}-${end + 1}`,
+        kind: "snippet",
+        content: `\n${lines
+          .slice(start, end + 1)
+          .join("\n")
+          .trim()}\n`,
+        references: [],
+        location: { start, end },
+      });
+    }
+
+    return entities.sort((a, b) => a.location.start - b.location.start);
+  }
+}
@@ -0,0 +1,74 @@
+import { CodeExtractor } from "./CodeExtractor";
+import { WorkspaceCache } from "./WorkspaceCache";
+import { parseImports } from "../utils/importParser";
+import { resolveImportPaths } from "../utils/pathResolution";
+import { outlineSource } from "../utils/outline";
+import {
+  ExtractedContent,
+  ImportInfo,
+  LanguageProvider,
+  SnippetRange,
+} from "../types";
+
+export class TypeScriptProvider implements LanguageProvider {
+  readonly languageIds = [
+    "typescript",
+    "typescriptreact",
+    "javascript",
+    "javascriptreact",
+  ];
+  readonly extensions = [
+    ".ts",
+    ".tsx",
+    ".mts",
+    ".cts",
+    ".js",
+    ".jsx",
+    ".mjs",
+    ".cjs",
+  ];
+  private extractor: CodeExtractor;
+  private cache: WorkspaceCache;
+
+  constructor(extractor: CodeExtractor, cache: WorkspaceCache) {
+    this.extractor = extractor;
+    this.cache = cache;
+  }
+
+  parseImports(sourceCode: string, filePath: string): ImportInfo[] {
+    return parseImports(sourceCode, filePath);
+  }
+
+  resolveImports(
+    imports: ImportInfo[],
+    currentFilePath: string
+  ): Promise<ImportInfo[]> {
+    return resolveImportPaths(imports, currentFilePath, this.cache);
+  }
+
+  extractImportedEntities(
+    sourceCode: string,
+    importInfo: ImportInfo
+  ): Promise<ExtractedContent[]> {
+    return this.extractor.extractImportedEntities(sourceCode, importInfo);
+  }
+
+  extractDeclarations(
+    sourceCode: string,
+    filePath: string
+  ): ExtractedContent[] {
+    return this.extractor.extractDeclarations(sourceCode, filePath);
+  }
+
+  extractSnippet(
+    sourceCode: string,
+    filePath: string,
+    range: SnippetRange
+  ): ExtractedContent {
+    return this.extractor.extractSnippet(sourceCode, filePath, range);
+  }
+
+  outline(sourceCode: string, filePath: string): string {
+    return outlineSource(sourceCode, filePath);
+  }
+}
@@ -0,0 +1,70 @@
+import * as vscode from "vscode";
+import * as fs from "fs/promises";
+import { WorkspaceCache } from "./WorkspaceCache";
+import { PBCodeConfig, readConfig } from "../utils/config";
+import { Logger, WorkspaceHost } from "../types";
+
+// Read on every use, so changed settings apply without a reload. Folder
+// settings take precedence for files in multi-root workspaces.
+export function getConfig(scope?: vscode.Uri): PBCodeConfig {
+  const workspaceFolder =
+    (scope && vscode.workspace.getWorkspaceFolder(scope)) ??
+    vscode.workspace.workspaceFolders?.[0];
+  return readConfig(
+    vscode.workspace.getConfiguration("pbcode", scope),
+    workspaceFolder?.uri.fsPath
+  );
+}
+
+export class VSCodeHost implements WorkspaceHost {
+  trace: Logger;
+
+  constructor(trace: Logger) {
+    this.trace = trace;
+  }
+
+  // The editor's contents when the file is open, otherwise the file on disk
+  async readFile(filePath: string): Promise<string> {
+    const document = vscode.workspace.textDocuments.find(
+      (d) => d.fileName === filePath
+    );
+    return document ? document.getText() : fs.readFile(filePath, "utf-8");
+  }
+
+  // In multi-root workspaces, the folder owning the file
+  workspaceRoot(filePath: string): string | undefined {
+    return (
+      vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath)) ??
+      vscode.workspace.workspaceFolders?.[0]
+    )?.uri.fsPath;
+  }
+
+  getConfig(filePath: string): PBCodeConfig {
+    return getConfig(vscode.Uri.file(filePath));
+  }
+}
+
+// Drops cached values when a watcher sees the files they came from change
+export function watchWorkspace(cache: WorkspaceCache): vscode.Disposable {
+  const watcher = vscode.workspace.createFileSystemWatcher("**/*");
+  return vscode.Disposable.from(
+    watcher,
+    watcher.onDidChange((uri) => cache.invalidate(uri.fsPath)),
+    // New or removed files can change what any specifier resolves to
+    watcher.onDidCreate((uri) => cache.invalidate(uri.fsPath, true)),
+    watcher.onDidDelete((uri) => cache.invalidate(uri.fsPath, true)),
+    // Unsaved edits are read from the editor rather than the disk
+    vscode.workspace.onDidChangeTextDocument((event) =>
+      cache.invalidate(event.document.fileName)
+    ),
+    vscode.workspace.onDidCloseTextDocument((document) =>
+      cache.invalidate(document.fileName)
+    ),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("pbcode")) {
+        cache.clear();
+      }
+    }),
+    { dispose: () => cache.clear() }
+  );
+}
@@ -0,0 +1,93 @@
+import * as path from "path";
+import { WorkspaceHost } from "../types";
+
+interface SharedEntry {
+  value: unknown;
+  // Files the value was read from, filled in while it is computed
+  dependencies: Set<string>;
+}
+
+// Files whose changes can alter how any import resolves
+const RESOLUTION_CONFIG_FILE =
+  /^(?:[tj]sconfig(?:\..+)?\.json|package\.json|pnpm-workspace\.yaml)$/;
+
+// Contents, parsed imports, resolutions and extracted entities kept across
+// commands until the files they came from are invalidated
+export class WorkspaceCache {
+  readonly host: WorkspaceHost;
+  // Values derived from a single file, keyed by path and then by kind
+  private files = new Map<string, Map<string, unknown>>();
+  // Values that may read several files, such as resolved imports
+  private shared = new Map<string, SharedEntry>();
+
+  constructor(host: WorkspaceHost) {
+    this.host = host;
+  }
+
+  readSource(filePath: string): Promise<string> {
+    return this.derive(filePath, "source", () => this.host.readFile(filePath));
+  }
+
+  derive<T>(filePath: string, key: string, compute: () => T): T {
+    let entries = this.files.get(filePath);
+    if (!entries) {
+      entries = new Map();
+      this.files.set(filePath, entries);
+    }
+    if (!entries.has(key)) {
+      const value = compute();
+      entries.set(key, value);
+      this.forgetOnFailure(value, () => {
+        if (this.files.get(filePath)?.get(key) === value) {
+          this.files.get(filePath)!.delete(key);
+        }
+      });
+    }
+    return entries.get(key) as T;
+  }
+
+  // `compute` records every file it reads into `dependencies`
+  memo<T>(key: string, compute: (dependencies: Set<string>) => T): T {
+    let entry = this.shared.get(key);
+    if (!entry) {
+      const dependencies = new Set<string>();
+      const created: SharedEntry = {
+        value: compute(dependencies),
+        dependencies,
+      };
+      this.shared.set(key, created);
+      this.forgetOnFailure(created.value, () => {
+        if (this.shared.get(key) === created) {
+          this.shared.delete(key);
+        }
+      });
+      entry = created;
+    }
+    return entry.value as T;
+  }
+
+  invalidate(filePath: string, structural = false): void {
+    this.files.delete(filePath);
+    if (structural || RESOLUTION_CONFIG_FILE.test(path.basename(filePath))) {
+      this.shared.clear();
+      return;
+    }
+    for (const [key, entry] of this.shared) {
+      if (entry.dependencies.has(filePath)) {
+        this.shared.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.files.clear();
+    this.shared.clear();
+  }
+
+  // A failed read or resolution is retried next time instead of cached
+  private forgetOnFailure(value: unknown, forget: () => void): void {
+    if (value instanceof Promise) {
+      value.catch(forget);
+    }
+  }
+}
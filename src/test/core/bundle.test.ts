@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { collectBundle, createBundle } from '../../api';
+import { DependencyClosure } from '../../types';
+
+// Fixtures stay in src, next to this file's source
+const FIXTURES = path.resolve(__dirname, '../../../src/test/fixtures');
+const TS_APP = path.join(FIXTURES, 'ts-app');
+const PY_APP = path.join(FIXTURES, 'py-app');
+
+function entitiesByFile(
+	{ files }: DependencyClosure,
+	root: string
+): Record<string, string[]> {
+	return Object.fromEntries(
+		files.map((file) => [
+			path.relative(root, file.path).split(path.sep).join('/'),
+			file.entities.map((entity) => entity.name),
+		])
+	);
+}
+
+suite('Bundle pipeline', () => {
+	test('follows tsconfig aliases and barrel re-exports', async () => {
+		const closure = await collectBundle([path.join(TS_APP, 'src/main.ts')], {
+			root: TS_APP,
+		});
+
+		assert.deepStrictEqual(entitiesByFile(closure, TS_APP), {
+			'src/main.ts': [],
+			'src/utils/format.ts': ['capitalize', 'formatName'],
+			'src/models/user.ts': ['User'],
+			'src/types.ts': ['Id'],
+		});
+	});
+
+	test('stops at the requested depth', async () => {
+		const closure = await collectBundle([path.join(TS_APP, 'src/main.ts')], {
+			root: TS_APP,
+			depth: 1,
+		});
+
+		assert.deepStrictEqual(Object.keys(entitiesByFile(closure, TS_APP)), [
+			'src/main.ts',
+			'src/utils/format.ts',
+			'src/models/user.ts',
+		]);
+	});
+
+	test('traces resolution to the given logger only', async () => {
+		const trace: string[] = [];
+		await collectBundle([path.join(TS_APP, 'src/main.ts')], {
+			root: TS_APP,
+			depth: 1,
+			trace: { appendLine: (line) => trace.push(line) },
+		});
+
+		assert.ok(trace.includes('Processing import: @/utils/format'));
+		assert.ok(
+			trace.includes(
+				`Successfully resolved path: ${path.join(TS_APP, 'src/utils/format.ts')}`
+			)
+		);
+	});
+
+	test('skips files matching pbcode.exclude', async () => {
+		const closure = await collectBundle([path.join(TS_APP, 'src/main.ts')], {
+			root: TS_APP,
+			settings: { 'pbcode.exclude': ['src/utils/**'] },
+		});
+
+		assert.ok(
+			!closure.files.some((file) => file.path.includes('format.ts')),
+			'excluded file was bundled'
+		);
+	});
+
+	test('formats the bundle with workspace-relative paths', async () => {
+		const bundle = await createBundle([path.join(TS_APP, 'src/main.ts')], {
+			root: TS_APP,
+			depth: 1,
+			format: 'markdown',
+		});
+
+		assert.ok(bundle.text.startsWith('`src/main.ts`\n```typescript\n'));
+		assert.ok(bundle.text.includes('`src/utils/format.ts`'));
+		assert.ok(!bundle.text.includes('slugify'));
+		assert.ok(bundle.tokens > 0);
+	});
+
+	test('resolves Python packages', async () => {
+		const closure = await collectBundle([path.join(PY_APP, 'main.py')], {
+			root: PY_APP,
+		});
+
+		assert.deepStrictEqual(entitiesByFile(closure, PY_APP), {
+			'main.py': [],
+			'shop/models/cart.py': ['Cart'],
+		});
+	});
+
+	test('outlines Python dependencies with the Python provider', async () => {
+		const errors: unknown[] = [];
+		const error = console.error;
+		console.error = (...args: unknown[]) => errors.push(args);
+		try {
+			const bundle = await createBundle([path.join(PY_APP, 'main.py')], {
+				root: PY_APP,
+				outline: true,
+			});
+
+			assert.ok(bundle.text.includes('return cart.total()'));
+			assert.ok(
+				bundle.text.includes(
+					'def total(self):\n        """Sum of the prices, before discounts."""\n        ...'
+				)
+			);
+			assert.ok(!bundle.text.includes('sum(self.prices)'));
+			assert.deepStrictEqual(errors, []);
+		} finally {
+			console.error = error;
+		}
+	});
+});
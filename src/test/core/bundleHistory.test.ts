@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { BundleHistory } from '../../services/BundleHistory';
+import { CodeExtractor } from '../../services/CodeExtractor';
+import { LanguageRegistry } from '../../services/LanguageRegistry';
+import { NodeHost } from '../../services/NodeHost';
+import { WorkspaceCache } from '../../services/WorkspaceCache';
+import { BundleFile } from '../../types';
+
+const TS_APP = path.resolve(__dirname, '../../../src/test/fixtures/ts-app');
+const MAIN = path.join(TS_APP, 'src/main.ts');
+const FORMAT = path.join(TS_APP, 'src/utils/format.ts');
+
+class MemoryMemento {
+	private values = new Map<string, unknown>();
+
+	keys(): readonly string[] {
+		return Array.from(this.values.keys());
+	}
+
+	get<T>(key: string, defaultValue?: T): T {
+		return (this.values.has(key) ? this.values.get(key) : defaultValue) as T;
+	}
+
+	async update(key: string, value: unknown): Promise<void> {
+		this.values.set(key, value);
+	}
+}
+
+suite('BundleHistory', () => {
+	// Files edited by a test, read instead of the fixtures
+	const edited = new Map<string, string>();
+	const node = new NodeHost(TS_APP);
+	const cache = new WorkspaceCache({
+		readFile: async (filePath) =>
+			edited.get(filePath) ?? node.readFile(filePath),
+		workspaceRoot: () => node.workspaceRoot(),
+		getConfig: () => node.getConfig(),
+		trace: node.trace,
+	});
+	const languages = new LanguageRegistry(new CodeExtractor(), cache);
+	let history: BundleHistory;
+
+	function edit(filePath: string, change: (source: string) => string): void {
+		edited.set(filePath, change(fs.readFileSync(filePath, 'utf-8')));
+		cache.invalidate(filePath);
+	}
+
+	// formatName as a dependency, with the main file's first line selected
+	function bundle(): BundleFile[] {
+		const source = fs.readFileSync(FORMAT, 'utf-8');
+		const [formatName] = new CodeExtractor()
+			.extractDeclarations(source, FORMAT)
+			.filter((d) => d.name === 'formatName');
+		return [
+			{
+				path: MAIN,
+				depth: 0,
+				entities: [
+					{
+						name: 'selection:1-1',
+						kind: 'snippet',
+						content: '\nformatName\n',
+						references: ['formatName'],
+						location: { start: 0, end: 0 },
+						depth: 0,
+					},
+				],
+			},
+			{ path: FORMAT, depth: 1, entities: [{ ...formatName, depth: 1 }] },
+		];
+	}
+
+	setup(() => {
+		edited.clear();
+		cache.clear();
+		history = new BundleHistory(
+			new MemoryMemento() as unknown as vscode.Memento,
+			languages,
+			cache
+		);
+	});
+
+	test('keeps the root files of a bundle without whole files', async () => {
+		await history.record('symbol', [MAIN], bundle(), 'copied', 20);
+
+		const [entry] = history.entries();
+		assert.deepStrictEqual(entry.rootFiles, [MAIN]);
+		assert.deepStrictEqual(entry.files, {});
+		// Hashes only, no code
+		assert.ok(!JSON.stringify(entry).includes('capitalize'));
+	});
+
+	test('finds nothing changed right after copying', async () => {
+		await history.record('symbol', [MAIN], bundle(), 'copied', 20);
+
+		assert.deepStrictEqual(await history.changedSince(history.entries()[0]), {
+			files: [],
+			missing: [],
+		});
+	});
+
+	test('copies changed entities and selections as they are now', async () => {
+		await history.record('symbol', [MAIN], bundle(), 'copied', 20);
+		edit(FORMAT, (source) => source.replace('name.trim()', 'name'));
+		edit(MAIN, (source) => source.replace('@/utils/format', '~lib/format'));
+
+		const { files, missing } = await history.changedSince(
+			history.entries()[0]
+		);
+
+		assert.deepStrictEqual(missing, []);
+		assert.deepStrictEqual(
+			files.map((file) => [
+				path.relative(TS_APP, file.path),
+				file.entities.map((entity) => entity.content.trim()),
+			]),
+			[
+				[
+					path.join('src', 'main.ts'),
+					['import { formatName } from "~lib/format";'],
+				],
+				[
+					path.join('src', 'utils', 'format.ts'),
+					[
+						[
+							'export function formatName(name: string): string {',
+							'  return capitalize(name);',
+							'}',
+						].join('\n'),
+					],
+				],
+			]
+		);
+	});
+
+	test('reports entities that are gone', async () => {
+		await history.record('symbol', [MAIN], bundle(), 'copied', 20);
+		edit(FORMAT, (source) => source.replace('formatName', 'fullName'));
+
+		assert.deepStrictEqual(
+			(await history.changedSince(history.entries()[0])).missing,
+			[`${FORMAT}:formatName`]
+		);
+	});
+
+	test('keeps the newest entries and no text too large to store', async () => {
+		await history.record('all', [MAIN], [], 'first', 2);
+		await history.record('all', [MAIN], [], 'second', 2);
+		await history.record('all', [MAIN], [], 'x'.repeat(200_000), 2);
+
+		const entries = history.entries();
+		assert.deepStrictEqual(
+			entries.map((entry) => entry.text),
+			[undefined, 'second']
+		);
+		assert.ok(entries[0].tokens > 0);
+
+		await history.record('all', [MAIN], [], 'kept', 0);
+		assert.deepStrictEqual(history.entries(), []);
+	});
+});
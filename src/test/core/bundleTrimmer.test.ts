@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { collectBundle } from '../../api';
+import { BundleTrimmer } from '../../services/BundleTrimmer';
+import { CodeExtractor } from '../../services/CodeExtractor';
+import { LanguageRegistry } from '../../services/LanguageRegistry';
+import { NodeHost } from '../../services/NodeHost';
+import { WorkspaceCache } from '../../services/WorkspaceCache';
+import { BundleFile } from '../../types';
+
+const TS_APP = path.resolve(__dirname, '../../../src/test/fixtures/ts-app');
+
+function render(files: BundleFile[]): string {
+	return files
+		.map((file) =>
+			[file.content ?? '', ...file.entities.map((e) => e.content)].join('\n')
+		)
+		.join('\n');
+}
+
+suite('BundleTrimmer', () => {
+	const languages = new LanguageRegistry(
+		new CodeExtractor(),
+		new WorkspaceCache(new NodeHost(TS_APP))
+	);
+	let files: BundleFile[];
+	suiteSetup(async () => {
+		({ files } = await collectBundle([path.join(TS_APP, 'src/main.ts')], {
+			root: TS_APP,
+		}));
+	});
+
+	test('leaves a bundle within budget alone', () => {
+		const result = BundleTrimmer.fit(files, Number.MAX_SAFE_INTEGER, languages, render);
+
+		assert.deepStrictEqual(result.collapsed, []);
+		assert.deepStrictEqual(result.dropped, []);
+		assert.deepStrictEqual(result.files, files);
+	});
+
+	test('collapses the largest entity that shrinks before dropping any', () => {
+		const full = BundleTrimmer.fit(files, Number.MAX_SAFE_INTEGER, languages, render);
+		const result = BundleTrimmer.fit(files, full.tokens - 5, languages, render);
+
+		// The depth 2 type alias has no body to collapse
+		assert.deepStrictEqual(
+			result.collapsed.map(({ entity }) => entity.name),
+			['capitalize']
+		);
+		assert.deepStrictEqual(result.dropped, []);
+		assert.ok(result.tokens <= full.tokens - 5);
+		assert.ok(!render(result.files).includes('toUpperCase'));
+	});
+
+	test('keeps the active file when nothing else fits', () => {
+		const result = BundleTrimmer.fit(files, 0, languages, render);
+
+		assert.deepStrictEqual(
+			result.files.map((file) => path.relative(TS_APP, file.path)),
+			[path.join('src', 'main.ts')]
+		);
+		assert.strictEqual(result.dropped.length, 4);
+		// The caller's files are not modified
+		assert.ok(files.every((file) => !file.entities.some((e) => e.collapsed)));
+	});
+});
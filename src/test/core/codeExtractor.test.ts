@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeExtractor } from '../../services/CodeExtractor';
+
+const TS_APP = path.resolve(__dirname, '../../../src/test/fixtures/ts-app');
+const PARSE = path.join(TS_APP, 'src/utils/parse.ts');
+
+suite('CodeExtractor', () => {
+	const extractor = new CodeExtractor();
+	const source = fs.readFileSync(PARSE, 'utf-8');
+
+	test('keeps overloads and the doc comment with the implementation', () => {
+		const [parse] = extractor.extractDeclarations(source, PARSE);
+
+		assert.strictEqual(parse.name, 'parse');
+		assert.deepStrictEqual(parse.location, { start: 0, end: 5 });
+		assert.ok(parse.content.includes('/** Parses a value into a number */'));
+		assert.strictEqual(parse.content.match(/export function parse/g)?.length, 3);
+	});
+
+	test('splits multiple declarators into one entity each', () => {
+		const declarations = extractor.extractDeclarations(source, PARSE);
+		const min = declarations.find((d) => d.name === 'min')!;
+		const max = declarations.find((d) => d.name === 'max')!;
+
+		assert.strictEqual(min.content.trim(), 'export const min = 0;');
+		assert.ok(max.content.includes('max = clamp(100)'));
+		assert.ok(!max.content.includes('min'));
+		assert.deepStrictEqual(max.references, ['clamp']);
+	});
+
+	test('leaves line comments out of the declaration', () => {
+		const range = extractor
+			.extractDeclarations(source, PARSE)
+			.find((d) => d.name === 'Range')!;
+
+		assert.strictEqual(range.content.trim(), 'export class Range {}');
+	});
+
+	test('extracts only the imported names', async () => {
+		const entities = await extractor.extractImportedEntities(source, {
+			source: './parse',
+			resolvedPath: PARSE,
+			imports: [{ name: 'max' }],
+		});
+
+		assert.deepStrictEqual(
+			entities.map((entity) => entity.name),
+			['max']
+		);
+	});
+});
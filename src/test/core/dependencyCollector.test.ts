@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { collectBundle } from '../../api';
+import { DependencyClosure } from '../../types';
+
+const TS_APP = path.resolve(__dirname, '../../../src/test/fixtures/ts-app');
+const ENTRY = path.join(TS_APP, 'src/cycle/entry.ts');
+
+function entitiesByFile({ files }: DependencyClosure): Record<string, string[]> {
+	return Object.fromEntries(
+		files.map((file) => [
+			path.basename(file.path),
+			file.entities.map((entity) => `${entity.name}@${entity.depth}`),
+		])
+	);
+}
+
+suite('DependencyCollector', () => {
+	test('copies only the entry file at depth 0', async () => {
+		const closure = await collectBundle([ENTRY], { root: TS_APP, depth: 0 });
+
+		assert.deepStrictEqual(entitiesByFile(closure), { 'entry.ts': [] });
+	});
+
+	test('stops after direct imports at depth 1', async () => {
+		const closure = await collectBundle([ENTRY], { root: TS_APP, depth: 1 });
+
+		assert.deepStrictEqual(entitiesByFile(closure), {
+			'entry.ts': [],
+			'a.ts': ['ping@1'],
+		});
+	});
+
+	test('follows a cycle once, with the helpers a declaration uses', async () => {
+		const closure = await collectBundle([ENTRY], { root: TS_APP });
+
+		assert.deepStrictEqual(entitiesByFile(closure), {
+			'entry.ts': [],
+			'a.ts': ['ping@1'],
+			'b.ts': ['half@2', 'pong@2'],
+		});
+		assert.deepStrictEqual(
+			Array.from(closure.processedEntities.keys())
+				.map((key) => path.basename(key))
+				.sort(),
+			['a.ts:ping', 'b.ts:half', 'b.ts:pong']
+		);
+	});
+});
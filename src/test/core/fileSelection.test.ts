@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { isBinaryFile } from '../../utils/fsUtils';
+import { IgnoreCache, isGitIgnored } from '../../utils/gitignore';
+import { isExcluded, matchesGlob } from '../../utils/glob';
+
+// .gitignore files here would also apply to the repository, so the tree is
+// written to a temporary directory
+const IGNORE_FILES: Record<string, string> = {
+	'.gitignore': [
+		'# build output',
+		'*.log',
+		'!keep.log',
+		'/dist',
+		'cache/',
+		'docs/**/draft.md',
+		'logs/',
+		'!logs/today.txt',
+	].join('\n'),
+	'src/.gitignore': ['generated/', '!important.log'].join('\n'),
+};
+
+suite('File selection', () => {
+	let root: string;
+	suiteSetup(async () => {
+		root = await fs.mkdtemp(path.join(os.tmpdir(), 'pbcode-selection-'));
+		for (const [name, content] of Object.entries(IGNORE_FILES)) {
+			await fs.mkdir(path.dirname(path.join(root, name)), { recursive: true });
+			await fs.writeFile(path.join(root, name), content);
+		}
+	});
+	suiteTeardown(async () => {
+		await fs.rm(root, { recursive: true, force: true });
+	});
+
+	async function ignored(...files: string[]): Promise<string[]> {
+		const cache: IgnoreCache = new Map();
+		const results = await Promise.all(
+			files.map((file) => isGitIgnored(path.join(root, file), root, cache))
+		);
+		return files.filter((_, i) => results[i]);
+	}
+
+	test('re-includes files with a negated rule, in a deeper .gitignore too', async () => {
+		assert.deepStrictEqual(
+			await ignored('error.log', 'keep.log', 'src/error.log', 'src/important.log'),
+			['error.log', 'src/error.log']
+		);
+	});
+
+	test('matches a leading slash only beside its .gitignore', async () => {
+		assert.deepStrictEqual(await ignored('dist/app.js', 'src/dist/app.js', 'distance.ts'), [
+			'dist/app.js',
+		]);
+	});
+
+	test('applies trailing-slash rules to directories only', async () => {
+		assert.deepStrictEqual(
+			await ignored('cache/data.json', 'src/cache/data.json', 'src/cache', 'src/generated/api.ts'),
+			['cache/data.json', 'src/cache/data.json', 'src/generated/api.ts']
+		);
+	});
+
+	test('cannot re-include a file inside an ignored directory', async () => {
+		assert.deepStrictEqual(await ignored('logs/today.txt'), ['logs/today.txt']);
+	});
+
+	test('matches `**` across zero or more directories', async () => {
+		assert.deepStrictEqual(
+			await ignored('docs/draft.md', 'docs/guide/v2/draft.md', 'docs/guide/final.md'),
+			['docs/draft.md', 'docs/guide/v2/draft.md']
+		);
+	});
+
+	test('ignores nothing outside the workspace', async () => {
+		assert.deepStrictEqual(await ignored('../outside.log'), []);
+	});
+
+	test('expands braces and `**` in exclude globs', () => {
+		assert.ok(matchesGlob('src/app.test.ts', '**/*.{test,spec}.ts'));
+		assert.ok(matchesGlob('app.spec.ts', '**/*.{test,spec}.ts'));
+		assert.ok(!matchesGlob('src/app.ts', '**/*.{test,spec}.ts'));
+		assert.ok(matchesGlob('src/a/b/c.snap', 'src/**/*.{snap,{png,jpg}}'));
+		assert.ok(matchesGlob('src/a/b/c.jpg', 'src/**/*.{snap,{png,jpg}}'));
+		assert.ok(matchesGlob('src/c.tsx', 'src/*.ts?'));
+		assert.ok(!matchesGlob('src/a/c.tsx', 'src/*.ts?'));
+	});
+
+	test('excludes files by workspace-relative globs', () => {
+		const workspace = path.join(root, 'workspace');
+
+		assert.ok(isExcluded(path.join(workspace, 'src/gen/api.ts'), workspace, ['src/gen/**']));
+		assert.ok(!isExcluded(path.join(workspace, 'lib/src/gen/api.ts'), workspace, ['src/gen/**']));
+		assert.ok(!isExcluded(path.join(root, 'src/gen/api.ts'), workspace, ['**']));
+	});
+
+	test('detects binary files by a NUL byte near the start', async () => {
+		const text = path.join(root, 'notes.txt');
+		const binary = path.join(root, 'image.png');
+		const empty = path.join(root, 'empty');
+		await fs.writeFile(text, 'plain text, ünïcode too\n');
+		await fs.writeFile(binary, Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x1a]));
+		await fs.writeFile(empty, '');
+
+		assert.strictEqual(await isBinaryFile(text), false);
+		assert.strictEqual(await isBinaryFile(binary), true);
+		assert.strictEqual(await isBinaryFile(empty), false);
+	});
+});
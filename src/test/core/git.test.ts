@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	branchChanges,
+	findRepoRoot,
+	listBranches,
+	readChanges,
+	uncommittedChanges,
+} from '../../utils/git';
+
+suite('Git changes', () => {
+	let repo: string;
+
+	function git(...args: string[]): string {
+		return execFileSync(
+			'git',
+			['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args],
+			{ cwd: repo, encoding: 'utf-8' }
+		).trim();
+	}
+
+	function write(file: string, content: string): void {
+		fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+		fs.writeFileSync(path.join(repo, file), content);
+	}
+
+	// main: a.ts and b.ts committed, then c.ts on main after feature left it.
+	// feature: d.ts committed; in the working tree a.ts is edited, b.ts
+	// deleted and new.ts untracked.
+	suiteSetup(() => {
+		repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'pbcode-git-')));
+		git('init', '-q', '-b', 'main');
+		write('.gitignore', 'out/\n');
+		write('src/a.ts', 'export const a = 1;\n');
+		write('src/b.ts', 'export const b = 2;\n');
+		git('add', '-A');
+		git('commit', '-q', '-m', 'initial');
+
+		git('checkout', '-q', '-b', 'feature');
+		write('src/d.ts', 'export const d = 4;\n');
+		git('add', '-A');
+		git('commit', '-q', '-m', 'feature');
+
+		git('checkout', '-q', 'main');
+		write('src/c.ts', 'export const c = 3;\n');
+		git('add', '-A');
+		git('commit', '-q', '-m', 'main');
+		git('checkout', '-q', 'feature');
+
+		write('src/a.ts', 'export const a = 10;\n');
+		fs.rmSync(path.join(repo, 'src/b.ts'));
+		write('src/new.ts', 'export const fresh = true;\n');
+		write('out/build.js', 'ignored();\n');
+	});
+	suiteTeardown(() => {
+		fs.rmSync(repo, { recursive: true, force: true });
+	});
+
+	test('finds the repository root from a subdirectory', async () => {
+		assert.strictEqual(await findRepoRoot(path.join(repo, 'src')), repo);
+	});
+
+	test('lists the other branches', async () => {
+		assert.deepStrictEqual(await listBranches(repo), ['main']);
+	});
+
+	test('reads uncommitted edits, deletions and untracked files', async () => {
+		const changes = await readChanges(repo, uncommittedChanges());
+
+		assert.strictEqual(changes.label, 'Uncommitted changes');
+		// Deleted files are in the patch but not among the files
+		assert.deepStrictEqual(changes.files, [
+			path.join(repo, 'src/a.ts'),
+			path.join(repo, 'src/new.ts'),
+		]);
+		assert.ok(changes.patch.includes('+export const a = 10;'));
+		assert.ok(changes.patch.includes('deleted file mode'));
+		assert.ok(changes.patch.includes('-export const b = 2;'));
+		// From `git diff --no-index`, which exits with 1 when files differ
+		assert.ok(changes.patch.includes('+export const fresh = true;'));
+		assert.ok(!changes.patch.includes('ignored()'));
+	});
+
+	test('reads changes since the merge-base with another branch', async () => {
+		const base = await branchChanges(repo, 'main');
+		const mergeBase = git('rev-parse', 'main~1');
+
+		assert.strictEqual(base.ref, mergeBase);
+		assert.strictEqual(
+			base.label,
+			`Changes since main (merge-base ${mergeBase.slice(0, 7)})`
+		);
+
+		const changes = await readChanges(repo, base);
+		// Commits made on main since are not the branch's changes, and
+		// untracked files are left out
+		assert.deepStrictEqual(changes.files, [
+			path.join(repo, 'src/a.ts'),
+			path.join(repo, 'src/d.ts'),
+		]);
+		assert.ok(!changes.patch.includes('export const c = 3;'));
+		assert.ok(!changes.patch.includes('fresh'));
+	});
+});
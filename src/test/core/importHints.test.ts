@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { importHints, mayImport } from '../../utils/importHints';
+import { parseImports } from '../../utils/importParser';
+import { resolveImportPaths } from '../../utils/pathResolution';
+import { NodeHost } from '../../services/NodeHost';
+import { WorkspaceCache } from '../../services/WorkspaceCache';
+
+const TS_APP = path.resolve(__dirname, '../../../src/test/fixtures/ts-app');
+
+suite('Import hints', () => {
+	test('matches an import through a barrel, whatever its case', async () => {
+		const hints = await importHints(
+			path.join(TS_APP, 'src/models/user.ts'),
+			TS_APP
+		);
+
+		assert.ok(mayImport('import { User } from "./models";', hints));
+		assert.ok(mayImport('import { User } from "../Models";', hints));
+		assert.ok(!mayImport('import { get } from "./services/http";', hints));
+	});
+
+	test('includes path aliases and workspace packages', async () => {
+		assert.ok(
+			(
+				await importHints(path.join(TS_APP, 'src/utils/parse.ts'), TS_APP)
+			).includes('~lib')
+		);
+		assert.ok(
+			mayImport(
+				'import { Button } from "@app/ui";',
+				await importHints(
+					path.join(TS_APP, 'packages/ui/src/button.ts'),
+					TS_APP
+				)
+			)
+		);
+	});
+
+	test('finds a test importing its target through a barrel', async () => {
+		const target = path.join(TS_APP, 'src/models/user.ts');
+		const testPath = path.join(TS_APP, 'test/greeting.spec.ts');
+		const content = fs.readFileSync(testPath, 'utf-8');
+		const imports = await resolveImportPaths(
+			parseImports(content, testPath),
+			testPath,
+			new WorkspaceCache(new NodeHost(TS_APP))
+		);
+
+		assert.ok(mayImport(content, await importHints(target, TS_APP)));
+		assert.ok(imports.some((i) => i.resolvedPath === target));
+	});
+
+	test('always matches imports of a directory by dots', () => {
+		assert.ok(mayImport('import { User } from "..";', ['user']));
+		assert.ok(mayImport("const app = require('./');", ['user']));
+		assert.ok(!mayImport('import { Order } from "./order";', ['user']));
+	});
+});
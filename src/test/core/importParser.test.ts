@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { parseImports } from '../../utils/importParser';
+import { ImportInfo } from '../../types';
+
+function parse(code: string): Pick<ImportInfo, 'source' | 'kind'>[] {
+	return parseImports(code, 'src/a.ts').map(({ source, kind }) => ({
+		source,
+		kind,
+	}));
+}
+
+suite('parseImports', () => {
+	test('keeps side-effect imports without bindings', () => {
+		const [polyfill] = parseImports('import "./polyfill";', 'src/a.ts');
+
+		assert.deepStrictEqual(polyfill.imports, []);
+		assert.strictEqual(polyfill.kind, 'side-effect');
+	});
+
+	test('marks a statement type-only only when every binding is', () => {
+		assert.deepStrictEqual(
+			parse(
+				[
+					'import type { User } from "./models";',
+					'import { type Id, formatName } from "./format";',
+				].join('\n')
+			),
+			[
+				{ source: './models', kind: 'type' },
+				{ source: './format', kind: 'static' },
+			]
+		);
+	});
+
+	test('reads export-from as an import under the original name', () => {
+		const [helper] = parseImports(
+			'export { helper as aid } from "./helper";',
+			'src/a.ts'
+		);
+
+		assert.strictEqual(helper.kind, 're-export');
+		assert.deepStrictEqual(
+			helper.imports.map(({ name, alias }) => ({ name, alias })),
+			[{ name: 'helper', alias: 'aid' }]
+		);
+	});
+
+	test('finds require calls and destructured requires', () => {
+		const [fs, pathModule] = parseImports(
+			['const fs = require("fs");', 'const { join } = require("path");'].join(
+				'\n'
+			),
+			'src/a.ts'
+		);
+
+		assert.strictEqual(fs.kind, 'require');
+		assert.ok(fs.imports[0].isNamespace);
+		assert.deepStrictEqual(
+			pathModule.imports.map(({ name }) => name),
+			['join']
+		);
+	});
+
+	test('finds dynamic imports and skips computed specifiers', () => {
+		assert.deepStrictEqual(
+			parse(
+				[
+					'async function load() {',
+					'  return import("./lazy");',
+					'}',
+					'const page = require(`./pages/${name}`);',
+				].join('\n')
+			),
+			[{ source: './lazy', kind: 'dynamic' }]
+		);
+	});
+
+	test('imports the whole module when the import() promise is chained', () => {
+		const imports = parseImports(
+			[
+				'import("./page").then((m) => m.default);',
+				'const ready = import("./chart").catch(() => null);',
+				'const { then } = await import("./thenable");',
+			].join('\n'),
+			'src/a.ts'
+		);
+
+		assert.deepStrictEqual(
+			imports.map(({ source, imports }) => ({ source, imports })),
+			[
+				{ source: './page', imports: [{ name: '*', isNamespace: true, kind: 'dynamic' }] },
+				{ source: './chart', imports: [{ name: '*', isNamespace: true, kind: 'dynamic' }] },
+				{ source: './thenable', imports: [{ name: 'then', alias: 'then', kind: 'dynamic' }] },
+			]
+		);
+	});
+});
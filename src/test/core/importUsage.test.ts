@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { collectBundle } from '../../api';
+import { DependencyClosure } from '../../types';
+
+const TS_APP = path.resolve(__dirname, '../../../src/test/fixtures/ts-app');
+
+suite('Namespace and default imports', () => {
+	let closure: DependencyClosure;
+	suiteSetup(async () => {
+		closure = await collectBundle([path.join(TS_APP, 'src/profile.ts')], {
+			root: TS_APP,
+		});
+	});
+
+	function entities(file: string): string[] | undefined {
+		return closure.files
+			.find((f) => f.path === path.join(TS_APP, file))
+			?.entities.map((entity) => entity.name);
+	}
+
+	test('copies only the namespace members the file uses', () => {
+		assert.deepStrictEqual(entities('src/utils/format.ts'), [
+			'capitalize',
+			'formatName',
+		]);
+	});
+
+	test('finds the default export under any local name', () => {
+		assert.deepStrictEqual(entities('src/services/session.ts'), ['Session']);
+	});
+});
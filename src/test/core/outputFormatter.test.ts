@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeExtractor } from '../../services/CodeExtractor';
+import {
+	FormatOptions,
+	OutputFormatter,
+} from '../../services/OutputFormatter';
+import { BundleDiagnostic, BundleFile } from '../../types';
+
+const TS_APP = path.resolve(__dirname, '../../../src/test/fixtures/ts-app');
+const RETRY = path.join(TS_APP, 'src/utils/retry.ts');
+
+const OPTIONS: FormatOptions = {
+	format: 'xml',
+	relativePaths: true,
+	lineRanges: false,
+	template: '',
+	diagnostics: 'inline',
+	workspaceRoot: TS_APP,
+};
+
+function diagnosticOn(source: string, line: number): BundleDiagnostic {
+	return {
+		severity: 'error',
+		line,
+		message: "Type 'string' is not assignable to type 'number'.",
+		source: 'ts',
+		code: '2322',
+		text: source.split('\n')[line],
+	};
+}
+
+suite('OutputFormatter', () => {
+	test('puts inline problems under their line in a reformatted entity', () => {
+		const source = fs.readFileSync(RETRY, 'utf-8');
+		const file: BundleFile = {
+			path: RETRY,
+			depth: 1,
+			entities: new CodeExtractor()
+				.extractDeclarations(source, RETRY)
+				.map((entity) => ({ ...entity, depth: 1 })),
+			diagnostics: [diagnosticOn(source, 5)],
+		};
+
+		const text = new OutputFormatter(OPTIONS).format([file]);
+
+		// Blank lines are collapsed and `export default` dropped
+		assert.ok(!text.includes('export default'));
+		assert.ok(
+			text.includes(
+				[
+					'    attempts += "1";',
+					"    // ^ error (ts 2322): Type 'string' is not assignable to type 'number'.",
+					'  }',
+				].join('\n')
+			)
+		);
+	});
+
+	test('puts problems from a collapsed body after the entity', () => {
+		const source = [
+			'export class Guard {',
+			'  check(items: number[]): void {',
+			'    for (const item of items) {',
+			'      if (item < 0) { throw new RangeError(item); }',
+			'    }',
+			'  }',
+			'',
+			'  reset(): void {}',
+			'}',
+		].join('\n');
+		const file: BundleFile = {
+			path: path.join(TS_APP, 'src/guard.ts'),
+			depth: 1,
+			entities: [
+				{
+					name: 'Guard',
+					kind: 'class',
+					content: '\nexport class Guard {\n  check(items: number[]): void {}\n\n  reset(): void {}\n}\n',
+					references: [],
+					location: { start: 0, end: 8 },
+					depth: 1,
+				},
+			],
+			diagnostics: [diagnosticOn(source, 3)],
+		};
+
+		const text = new OutputFormatter(OPTIONS).format([file]);
+
+		// Not under one of the lines that also end in `}`
+		assert.ok(!text.includes('// ^'));
+		assert.ok(
+			text.includes(
+				[
+					'  reset(): void {}',
+					'}',
+					"// Line 4: error (ts 2322): Type 'string' is not assignable to type 'number'.",
+				].join('\n')
+			)
+		);
+	});
+
+	test('escapes paths and labels in attributes', () => {
+		const file: BundleFile = {
+			path: path.join(TS_APP, 'src/a&b "<x>".ts'),
+			depth: 0,
+			content: 'export const x: number = "1";\n',
+			entities: [],
+			diagnostics: [diagnosticOn('export const x: number = "1";', 0)],
+		};
+
+		const text = new OutputFormatter({
+			...OPTIONS,
+			diagnostics: 'section',
+		}).format([file], {
+			label: 'Changes in "a" & <b>',
+			patch: '',
+			files: [],
+		});
+
+		assert.ok(
+			text.startsWith('<diff label="Changes in &quot;a&quot; &amp; &lt;b>">')
+		);
+		assert.ok(
+			text.includes('<diagnostics path="src/a&amp;b &quot;&lt;x>&quot;.ts">')
+		);
+	});
+});
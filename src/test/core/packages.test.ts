@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseImports } from '../../utils/importParser';
+import { resolveImportPaths } from '../../utils/pathResolution';
+import { matchPackageMap } from '../../utils/packageResolution';
+import { NodeHost } from '../../services/NodeHost';
+import { WorkspaceCache } from '../../services/WorkspaceCache';
+
+const TS_APP = path.resolve(__dirname, '../../../src/test/fixtures/ts-app');
+
+async function resolve(file: string, code: string): Promise<string[]> {
+	const filePath = path.join(TS_APP, file);
+	const imports = await resolveImportPaths(
+		parseImports(code, filePath),
+		filePath,
+		new WorkspaceCache(new NodeHost(TS_APP))
+	);
+	return imports.map((i) => path.relative(TS_APP, i.resolvedPath));
+}
+
+suite('Package resolution', () => {
+	test('resolves a workspace package through its root export', async () => {
+		assert.deepStrictEqual(
+			await resolve('src/main.ts', 'import { Button } from "@app/ui";'),
+			['packages/ui/src/button.ts']
+		);
+	});
+
+	test('prefers source conditions in subpath exports', async () => {
+		assert.deepStrictEqual(
+			await resolve('src/main.ts', 'import { Button } from "@app/ui/button";'),
+			['packages/ui/src/button.ts']
+		);
+		assert.deepStrictEqual(
+			await resolve(
+				'src/main.ts',
+				'import { close } from "@app/ui/icons/close";'
+			),
+			['packages/ui/src/icons/close.ts']
+		);
+	});
+
+	test('resolves # imports against the nearest package.json', async () => {
+		assert.deepStrictEqual(
+			await resolve(
+				'packages/ui/src/button.ts',
+				'import { theme } from "#internal/theme";'
+			),
+			['packages/ui/src/internal/theme.ts']
+		);
+	});
+
+	test('matches the longest pattern and nothing outside the map', () => {
+		const map = {
+			'./*': './src/*.js',
+			'./icons/*': './src/icons/*.ts',
+			'./package.json': './package.json',
+		};
+		assert.strictEqual(
+			matchPackageMap(map, './icons/close'),
+			'./src/icons/close.ts'
+		);
+		assert.strictEqual(matchPackageMap(map, './button'), './src/button.js');
+		assert.strictEqual(matchPackageMap({ '.': './index.js' }, './missing'), null);
+	});
+});
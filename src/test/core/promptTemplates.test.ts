@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+	loadWorkspacePrompts,
+	PromptValues,
+	renderPrompt,
+} from '../../utils/promptTemplates';
+
+const TS_APP = path.resolve(__dirname, '../../../src/test/fixtures/ts-app');
+
+const VALUES: PromptValues = {
+	bundle: '<file path="src/main.ts">\n</file>',
+	activeFile: 'src/main.ts',
+	selection: '',
+	symbol: 'greet',
+	diagnostics: '',
+};
+
+suite('Prompt templates', () => {
+	test('fills placeholders, spaces inside the braces included', () => {
+		assert.strictEqual(
+			renderPrompt(
+				'Explain {{ symbol }} in {{activeFile}}:\n{{bundle}}',
+				VALUES
+			),
+			`Explain greet in src/main.ts:\n${VALUES.bundle}`
+		);
+	});
+
+	test('appends the bundle when the template has no placeholder for it', () => {
+		assert.strictEqual(
+			renderPrompt('Find the bug.\n', VALUES),
+			`Find the bug.\n\n${VALUES.bundle}`
+		);
+	});
+
+	test('leaves unknown and inherited names as written', () => {
+		assert.strictEqual(
+			renderPrompt(
+				'{{constructor}} {{toString}} {{missing}} {{bundle}}',
+				VALUES
+			),
+			`{{constructor}} {{toString}} {{missing}} ${VALUES.bundle}`
+		);
+	});
+
+	test('loads .md and .txt files from the workspace prompt folder', async () => {
+		const prompts = await loadWorkspacePrompts(TS_APP);
+
+		assert.deepStrictEqual(
+			prompts.map(({ name, template }) => ({ name, template })),
+			[{ name: 'review', template: 'Review {{activeFile}} for bugs.\n' }]
+		);
+	});
+});
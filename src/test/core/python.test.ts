@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { NodeHost } from '../../services/NodeHost';
+import { WorkspaceCache } from '../../services/WorkspaceCache';
+import { extractPythonDeclarations, parsePythonImports } from '../../utils/pythonParser';
+import { resolvePythonImports } from '../../utils/pythonResolution';
+
+const PY_APP = path.resolve(__dirname, '../../../src/test/fixtures/py-app');
+const POLICY = path.join(PY_APP, 'shop/orders/refunds/policy.py');
+
+suite('Python imports', () => {
+	test('parses aliased, relative and parenthesised multi-line imports', () => {
+		const imports = parsePythonImports(
+			[
+				'import shop.models.cart as cart_module',
+				'import os.path',
+				'from ...models import (',
+				'    Cart,  # re-exported by the package',
+				'    cart as cart_file,',
+				')',
+				'',
+				'cart_module.Cart(cart_file.total, os.path.join)',
+			].join('\n')
+		);
+
+		assert.deepStrictEqual(
+			imports.map(({ source, imports }) => ({ source, imports })),
+			[
+				{
+					source: 'shop.models.cart',
+					imports: [{ name: 'shop.models.cart', alias: 'cart_module', isNamespace: true, members: ['Cart'] }],
+				},
+				{
+					source: 'os.path',
+					imports: [{ name: 'os.path', alias: 'os', isNamespace: true, members: ['join'] }],
+				},
+				{
+					source: '...models',
+					imports: [
+						{ name: 'Cart', alias: 'Cart', members: [] },
+						{ name: 'cart', alias: 'cart_file', members: ['total'] },
+					],
+				},
+			]
+		);
+	});
+
+	test('resolves several dots, submodules and names re-exported by packages', async () => {
+		const source = fs.readFileSync(POLICY, 'utf-8');
+		const cache = new WorkspaceCache(new NodeHost(PY_APP));
+		const resolved = await resolvePythonImports(parsePythonImports(source), POLICY, cache);
+
+		assert.deepStrictEqual(
+			resolved.map(({ source, imports, resolvedPath }) => ({
+				source,
+				names: imports.map(({ name }) => name),
+				file: path.relative(PY_APP, resolvedPath).split(path.sep).join('/'),
+			})),
+			[
+				{ source: 'shop.models.cart', names: ['shop.models.cart'], file: 'shop/models/cart.py' },
+				{ source: 'shop.pricing', names: ['shop.pricing'], file: 'shop/pricing/__init__.py' },
+				// Through `from .cart import Cart` in the package's __init__.py
+				{ source: '...models', names: ['Cart'], file: 'shop/models/cart.py' },
+				{ source: '...models.cart', names: ['...models.cart'], file: 'shop/models/cart.py' },
+				// Through `from .discounts import *`
+				{ source: '...pricing', names: ['discount'], file: 'shop/pricing/discounts.py' },
+			]
+		);
+	});
+});
+
+suite('Python declarations', () => {
+	test('starts declarations at their decorators and finds async functions', () => {
+		const source = [
+			'import functools',
+			'',
+			'',
+			'@functools.lru_cache(maxsize=None)',
+			'@staticmethod',
+			'def discount(code):',
+			'    return _rate(code)',
+			'',
+			'',
+			'async def fetch_rates(client):',
+			'    rates = await client.get("/rates")',
+			'    return rates',
+		].join('\n');
+
+		assert.deepStrictEqual(
+			extractPythonDeclarations(source).map(({ name, kind, location, references }) => ({
+				name,
+				kind,
+				location,
+				references,
+			})),
+			[
+				{
+					name: 'discount',
+					kind: 'function',
+					location: { start: 3, end: 6 },
+					references: ['functools', 'maxsize', 'staticmethod', 'code', '_rate'],
+				},
+				{
+					name: 'fetch_rates',
+					kind: 'function',
+					location: { start: 9, end: 11 },
+					references: ['client', 'rates'],
+				},
+			]
+		);
+	});
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { collectBundle } from '../../api';
+import { DependencyClosure } from '../../types';
+
+const TS_APP = path.resolve(__dirname, '../../../src/test/fixtures/ts-app');
+
+function entities(closure: DependencyClosure, file: string): string[] | undefined {
+	return closure.files
+		.find((f) => f.path === path.join(TS_APP, file))
+		?.entities.map((entity) => entity.name);
+}
+
+suite('Re-export tracing', () => {
+	let closure: DependencyClosure;
+	suiteSetup(async () => {
+		closure = await collectBundle([path.join(TS_APP, 'src/dashboard.ts')], {
+			root: TS_APP,
+		});
+	});
+
+	test('follows export * to the declaring file', () => {
+		assert.ok(entities(closure, 'src/services/api.ts')?.includes('deleteUser'));
+	});
+
+	test('follows renamed re-exports to the original name', () => {
+		const api = entities(closure, 'src/services/api.ts')!;
+
+		assert.ok(api.includes('fetchUser'));
+		assert.ok(!api.includes('listUsers'));
+	});
+
+	test('follows export * as ns to the namespace module', () => {
+		assert.ok(entities(closure, 'src/services/http.ts')?.includes('get'));
+	});
+
+	test('does not bundle the barrel itself', () => {
+		assert.strictEqual(entities(closure, 'src/services/index.ts'), undefined);
+	});
+});
@@ -0,0 +1,239 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeExtractor } from '../../services/CodeExtractor';
+import { LanguageRegistry } from '../../services/LanguageRegistry';
+import { NodeHost } from '../../services/NodeHost';
+import { OutputFormatter } from '../../services/OutputFormatter';
+import { WorkspaceCache } from '../../services/WorkspaceCache';
+import {
+	mergeSnippet,
+	parseResponse,
+	resolveResponsePath,
+} from '../../utils/responseParser';
+
+const FIXTURES = path.resolve(__dirname, '../../../src/test/fixtures');
+const TS_APP = path.join(FIXTURES, 'ts-app');
+const FORMAT = path.join(TS_APP, 'src/utils/format.ts');
+
+suite('Response parsing', () => {
+	test('reads <file> blocks, fenced or not', () => {
+		const response = [
+			'Here is the fix:',
+			'<file path="src/a.ts">',
+			'export const a = 1;',
+			'</file>',
+			'<file path="src/b.ts" lines="1-2">',
+			'```ts',
+			'export const b = 2;',
+			'```',
+			'</file>',
+		].join('\r\n');
+
+		assert.deepStrictEqual(parseResponse(response), [
+			{ path: 'src/a.ts', content: 'export const a = 1;' },
+			{ path: 'src/b.ts', content: 'export const b = 2;' },
+		]);
+	});
+
+	test('reads fences labelled with a path and skips the rest', () => {
+		const response = [
+			'### src/a.ts',
+			'```typescript',
+			'export const a = 1;',
+			'```',
+			'```ts title="src/b.ts"',
+			'export const b = 2;',
+			'```',
+			'Run this:',
+			'```sh',
+			'npm test',
+			'```',
+			'`src/c.ts`',
+			'```diff',
+			'-export const c = 1;',
+			'```',
+		].join('\n');
+
+		assert.deepStrictEqual(
+			parseResponse(response).map((block) => block.path),
+			['src/a.ts', 'src/b.ts']
+		);
+	});
+
+	test('reads back the markdown format PBCode copies', () => {
+		const content = 'export const a = "```";';
+		const markdown = new OutputFormatter({
+			format: 'markdown',
+			relativePaths: true,
+			lineRanges: true,
+			template: '',
+			diagnostics: 'off',
+			workspaceRoot: TS_APP,
+		}).format([
+			{
+				path: path.join(TS_APP, 'src/a.ts'),
+				depth: 0,
+				content,
+				entities: [],
+			},
+		]);
+
+		assert.deepStrictEqual(parseResponse(markdown), [
+			{ path: 'src/a.ts', content },
+		]);
+	});
+
+	test('reads back the XML format PBCode copies, with escaped paths', () => {
+		const content = 'export const a = "<b>";';
+		const xml = new OutputFormatter({
+			format: 'xml',
+			relativePaths: true,
+			lineRanges: true,
+			template: '',
+			diagnostics: 'off',
+			workspaceRoot: TS_APP,
+		}).format([
+			{
+				path: path.join(TS_APP, 'src/a&b "<x>".ts'),
+				depth: 0,
+				content,
+				entities: [],
+			},
+		]);
+
+		assert.deepStrictEqual(parseResponse(xml), [
+			{ path: 'src/a&b "<x>".ts', content },
+		]);
+	});
+
+	test('rejects paths outside the workspace roots', () => {
+		const roots = [TS_APP, path.join(FIXTURES, 'py-app')];
+
+		assert.strictEqual(
+			resolveResponsePath('src/a.ts', TS_APP, roots),
+			path.join(TS_APP, 'src/a.ts')
+		);
+		assert.strictEqual(
+			resolveResponsePath(
+				path.join(FIXTURES, 'py-app/main.py'),
+				TS_APP,
+				roots
+			),
+			path.join(FIXTURES, 'py-app/main.py')
+		);
+		assert.strictEqual(
+			resolveResponsePath('../x.ts', TS_APP, roots),
+			undefined
+		);
+		assert.strictEqual(
+			resolveResponsePath('src/../../../etc/passwd', TS_APP, roots),
+			undefined
+		);
+		assert.strictEqual(
+			resolveResponsePath(path.resolve('/tmp/x.ts'), TS_APP, roots),
+			undefined
+		);
+	});
+});
+
+suite('mergeSnippet', () => {
+	const provider = new LanguageRegistry(
+		new CodeExtractor(),
+		new WorkspaceCache(new NodeHost(TS_APP))
+	).forPath(FORMAT)!;
+	const current = fs.readFileSync(FORMAT, 'utf-8');
+
+	test('replaces the declarations a snippet shows and appends new ones', () => {
+		const snippet = [
+			'export function formatName(name: string): string {',
+			'  return capitalize(name.trim()).padEnd(1);',
+			'}',
+			'',
+			'export function initials(name: string): string {',
+			'  return name.charAt(0);',
+			'}',
+		].join('\n');
+
+		const merged = mergeSnippet(current, snippet, FORMAT, provider);
+
+		assert.deepStrictEqual(merged?.entities, ['formatName', 'initials']);
+		assert.ok(merged.content.includes('capitalize(name.trim()).padEnd(1)'));
+		assert.ok(merged.content.includes('function capitalize'));
+		assert.ok(merged.content.includes('export function slugify'));
+		assert.ok(
+			merged.content.endsWith(
+				[
+					'',
+					'export function initials(name: string): string {',
+					'  return name.charAt(0);',
+					'}',
+					'',
+				].join('\n')
+			)
+		);
+	});
+
+	test('adds the imports a snippet brings after the file\'s own', () => {
+		const file = [
+			'import { x } from "./x";',
+			'',
+			'export function a() {',
+			'  return x;',
+			'}',
+			'',
+			'export function b() {',
+			'  return 2;',
+			'}',
+			'',
+		].join('\n');
+		const snippet = [
+			'import { x } from "./x";',
+			'import {',
+			'  y,',
+			'} from "./y";',
+			'',
+			'export function a() {',
+			'  return x + y;',
+			'}',
+		].join('\n');
+
+		assert.strictEqual(
+			mergeSnippet(file, snippet, FORMAT, provider)?.content,
+			[
+				'import { x } from "./x";',
+				'import {',
+				'  y,',
+				'} from "./y";',
+				'',
+				'export function a() {',
+				'  return x + y;',
+				'}',
+				'',
+				'export function b() {',
+				'  return 2;',
+				'}',
+				'',
+			].join('\n')
+		);
+		assert.ok(
+			mergeSnippet(
+				current,
+				'import { slug } from "slug";\n\nexport function slugify(name: string): string {\n  return slug(name);\n}',
+				FORMAT,
+				provider
+			)?.content.startsWith('import { slug } from "slug";\n\nfunction capitalize(')
+		);
+	});
+
+	test('treats a snippet with every declaration as the whole file', () => {
+		assert.strictEqual(
+			mergeSnippet(current, current.replace('-', '_'), FORMAT, provider),
+			undefined
+		);
+		assert.strictEqual(
+			mergeSnippet(current, 'export const other = 1;', FORMAT, provider),
+			undefined
+		);
+	});
+});
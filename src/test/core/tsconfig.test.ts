@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { loadNearestConfig } from '../../utils/tsconfig';
+import { parseImports } from '../../utils/importParser';
+import { resolveImportPaths } from '../../utils/pathResolution';
+import { NodeHost } from '../../services/NodeHost';
+import { WorkspaceCache } from '../../services/WorkspaceCache';
+
+const TS_APP = path.resolve(__dirname, '../../../src/test/fixtures/ts-app');
+
+async function resolve(file: string, code: string): Promise<string[]> {
+	const filePath = path.join(TS_APP, file);
+	const imports = await resolveImportPaths(
+		parseImports(code, filePath),
+		filePath,
+		new WorkspaceCache(new NodeHost(TS_APP))
+	);
+	return imports.map((i) => path.relative(TS_APP, i.resolvedPath));
+}
+
+suite('tsconfig resolution', () => {
+	test('merges baseUrl and paths from the extends chain', async () => {
+		const config = await loadNearestConfig(
+			path.join(TS_APP, 'src/main.ts'),
+			TS_APP
+		);
+
+		assert.strictEqual(config.configPath, path.join(TS_APP, 'tsconfig.json'));
+		assert.strictEqual(config.baseUrl, TS_APP);
+		assert.deepStrictEqual(config.paths['@/*'], ['src/*']);
+	});
+
+	test('tries every target of a path alias', async () => {
+		assert.deepStrictEqual(
+			await resolve('src/main.ts', 'import { parse } from "~lib/parse";'),
+			['src/utils/parse.ts']
+		);
+	});
+
+	test('uses the config nearest to the importing file', async () => {
+		assert.deepStrictEqual(
+			await resolve('legacy/app.js', 'import { helper } from "@/helper";'),
+			['legacy/lib/helper.js']
+		);
+	});
+});
@@ -0,0 +1,5 @@
+from shop.models import Cart
+
+
+def checkout(cart: Cart) -> int:
+    return cart.total()
@@ -0,0 +1 @@
+from .cart import Cart
@@ -0,0 +1,11 @@
+import shop.models.cart as cart_module
+from shop import pricing
+from ...models import (
+    Cart,  # re-exported by the package
+    cart,
+)
+from ...pricing import discount
+
+
+def refund(order: Cart, code):
+    return cart_module.Cart(order.prices).total() * discount(code)
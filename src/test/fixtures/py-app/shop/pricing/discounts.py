@@ -0,0 +1,16 @@
+import functools
+
+
+def _rate(code):
+    return 0.1 if code else 0
+
+
+@functools.lru_cache(maxsize=None)
+@staticmethod
+def discount(code):
+    return _rate(code)
+
+
+async def fetch_rates(client):
+    rates = await client.get("/rates")
+    return rates
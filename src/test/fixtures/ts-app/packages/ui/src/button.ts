@@ -0,0 +1,5 @@
+import { theme } from "#internal/theme";
+
+export class Button {
+  color = theme.primary;
+}
@@ -0,0 +1 @@
+export const theme = { primary: "blue" };
@@ -0,0 +1,11 @@
+import { ping } from "./a";
+
+function half(n: number): number {
+  return Math.floor(n / 2);
+}
+
+export function pong(n: number): number {
+  return ping(half(n));
+}
+
+export function unused(): void {}
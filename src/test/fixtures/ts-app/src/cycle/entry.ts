@@ -0,0 +1,3 @@
+import { ping } from "./a";
+
+export const start = ping(3);
@@ -0,0 +1,6 @@
+import { deleteUser, http, loadUser } from "./services";
+
+export function load(id: string): Promise<Response> {
+  deleteUser(id);
+  return http.get(loadUser(id));
+}
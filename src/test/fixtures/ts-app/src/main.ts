@@ -0,0 +1,6 @@
+import { formatName } from "@/utils/format";
+import { User } from "./models";
+
+export function greet(user: User): string {
+  return `Hello, ${formatName(user.name)}`;
+}
@@ -0,0 +1,5 @@
+import { Id } from "../types";
+
+export class User {
+  constructor(public id: Id, public name: string) {}
+}
@@ -0,0 +1,6 @@
+import * as format from "./utils/format";
+import Current from "./services/session";
+
+export function describe(session: Current): string {
+  return format.formatName(session.token);
+}
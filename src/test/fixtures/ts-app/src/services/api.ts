@@ -0,0 +1,13 @@
+import { Id } from "../types";
+
+export function fetchUser(id: Id): string {
+  return `/users/${id}`;
+}
+
+export function deleteUser(id: Id): string {
+  return `/users/${id}/delete`;
+}
+
+export function listUsers(): string {
+  return "/users";
+}
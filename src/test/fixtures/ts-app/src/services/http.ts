@@ -0,0 +1,7 @@
+export function get(url: string): Promise<Response> {
+  return fetch(url);
+}
+
+export function post(url: string, body: string): Promise<Response> {
+  return fetch(url, { method: "POST", body });
+}
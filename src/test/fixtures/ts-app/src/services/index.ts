@@ -0,0 +1,3 @@
+export * from "./api";
+export { fetchUser as loadUser } from "./api";
+export * as http from "./http";
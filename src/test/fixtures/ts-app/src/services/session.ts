@@ -0,0 +1,5 @@
+export default class Session {
+  constructor(public token: string) {}
+}
+
+export function unrelated(): void {}
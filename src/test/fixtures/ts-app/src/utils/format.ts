@@ -0,0 +1,11 @@
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export function formatName(name: string): string {
+  return capitalize(name.trim());
+}
+
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, "-");
+}
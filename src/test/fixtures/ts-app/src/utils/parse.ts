@@ -0,0 +1,16 @@
+/** Parses a value into a number */
+export function parse(value: string): number;
+export function parse(value: number): number;
+export function parse(value: unknown): number {
+  return Number(value);
+}
+
+export const min = 0,
+  max = clamp(100);
+
+function clamp(value: number): number {
+  return Math.min(value, 1000);
+}
+
+// A line comment, not documentation
+export class Range {}
@@ -0,0 +1,9 @@
+export default function retry(times: number): number {
+  let attempts = 0;
+
+
+  while (attempts < times) {
+    attempts += "1";
+  }
+  return attempts;
+}
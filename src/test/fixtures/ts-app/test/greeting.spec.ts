@@ -0,0 +1,4 @@
+import { User } from "../src/models";
+import { greet } from "../src/main";
+
+export const greeting = greet(new User("1", "ada"));
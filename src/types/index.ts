@@ -1,28 +1,198 @@
+import { PBCodeConfig } from "../utils/config";
+
 export interface TSConfig {
+  extends?: string | string[];
   compilerOptions?: {
     paths?: Record<string, string[]>;
     baseUrl?: string;
   };
 }
 
+// A tsconfig.json or jsconfig.json with its `extends` chain merged
+export interface ResolvedTSConfig {
+  configPath: string | null;
+  // Absolute path
+  baseUrl?: string;
+  paths: Record<string, string[]>;
+  // Absolute directory `paths` targets are relative to
+  pathsBasePath: string;
+}
+
+export interface PackageJson {
+  name?: string;
+  main?: string;
+  types?: string;
+  typings?: string;
+  exports?: unknown;
+  imports?: unknown;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+// How a module is brought in. "type" marks `import type` and `{ type X }`
+// bindings; "side-effect" marks `import "./x"` and bare `require("./x")`.
+export type ImportKind =
+  | "static"
+  | "type"
+  | "require"
+  | "dynamic"
+  | "re-export"
+  | "side-effect";
+
 export interface ImportDeclaration {
+  // "*" for a module used as a whole without a binding, e.g. `import("./x")`
   name: string;
   alias?: string;
   isDefault?: boolean;
   isNamespace?: boolean;
+  // Members a namespace import is accessed by (`ns.member`); undefined when
+  // the namespace object itself is used
+  members?: string[];
+  kind?: ImportKind;
 }
 
 export interface ImportInfo {
   source: string;
   imports: ImportDeclaration[];
   resolvedPath: string;
+  // "type" only when every binding of the statement is type-only
+  kind?: ImportKind;
+}
+
+export interface ReExportInfo {
+  // Module the binding comes from; undefined for `export { a as b }` of a
+  // binding in scope
+  source?: string;
+  // Name other modules import it by, or "*" for `export * from`
+  exported: string;
+  // Name in the source module, or "*" for the whole module namespace
+  local: string;
 }
 
+export interface ModuleExports {
+  // Names of exported declarations in the module itself
+  declared: string[];
+  reExports: ReExportInfo[];
+}
+
+export type DeclarationKind =
+  | "function"
+  | "class"
+  | "interface"
+  | "type"
+  | "enum"
+  | "variable"
+  | "namespace"
+  // Arbitrary text selected in the editor
+  | "snippet";
+
 export interface ExtractedContent {
   name: string;
+  kind: DeclarationKind;
   content: string;
+  // Identifiers used by the declaration, excluding its own name
+  references: string[];
+  // Zero-based, inclusive line numbers in the source file
   location: {
     start: number;
     end: number;
   };
 }
+
+export interface BundleEntity extends ExtractedContent {
+  // Import hops from the active file, which is at depth 0
+  depth: number;
+  // Bodies replaced with `{ ... }` to save space
+  collapsed?: boolean;
+}
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+// A compiler or linter problem reported for a bundled file
+export interface BundleDiagnostic {
+  severity: DiagnosticSeverity;
+  // Zero-based line in the source file
+  line: number;
+  message: string;
+  // The reporting tool and its rule or error code, e.g. "ts" and "2322"
+  source?: string;
+  code?: string;
+  // The source line, to find the problem again in code reformatted for the
+  // bundle
+  text?: string;
+}
+
+export interface BundleFile {
+  path: string;
+  depth: number;
+  // Full text for files that are copied whole, such as the active file
+  content?: string;
+  entities: BundleEntity[];
+  diagnostics?: BundleDiagnostic[];
+}
+
+export interface DependencyClosure {
+  files: BundleFile[];
+  // Keyed by `${path}:${entityName}`
+  processedEntities: Map<string, string>;
+}
+
+// Zero-based offsets and lines of an editor selection
+export interface SnippetRange {
+  startOffset: number;
+  endOffset: number;
+  startLine: number;
+  endLine: number;
+}
+
+// Import parsing, path resolution and entity extraction for one language
+export interface LanguageProvider {
+  // VS Code language identifiers the provider handles
+  languageIds: string[];
+  // Used to pick a provider for files that are not open in an editor
+  extensions: string[];
+  parseImports(sourceCode: string, filePath: string): ImportInfo[];
+  resolveImports(
+    imports: ImportInfo[],
+    currentFilePath: string
+  ): Promise<ImportInfo[]>;
+  extractImportedEntities(
+    sourceCode: string,
+    importInfo: ImportInfo
+  ): Promise<ExtractedContent[]>;
+  extractDeclarations(sourceCode: string, filePath: string): ExtractedContent[];
+  extractSnippet(
+    sourceCode: string,
+    filePath: string,
+    range: SnippetRange
+  ): ExtractedContent;
+  // The code with function bodies elided, for signatures-only bundles
+  outline(sourceCode: string, filePath: string): string;
+}
+
+// An open editor document or a file read from disk
+export interface SourceDocument {
+  fileName: string;
+  // Unknown outside the editor, where the extension picks the language
+  languageId?: string;
+  getText(): string;
+}
+
+export interface CancellationSignal {
+  readonly isCancellationRequested: boolean;
+}
+
+export interface Logger {
+  appendLine(value: string): void;
+}
+
+// Everything the bundling pipeline needs from its environment, so the same
+// code runs in the extension and from the command line
+export interface WorkspaceHost {
+  readFile(filePath: string): Promise<string>;
+  // Root of the workspace folder holding the file
+  workspaceRoot(filePath: string): string | undefined;
+  // Settings in effect for the file
+  getConfig(filePath: string): PBCodeConfig;
+  // Receives each step of import resolution
+  trace: Logger;
+}
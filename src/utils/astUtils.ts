@@ -0,0 +1,127 @@
+import {
+  parse as parseTypeScript,
+  simpleTraverse,
+  TSESTree,
+} from "@typescript-eslint/typescript-estree";
+
+function isJsxFile(filePath?: string): boolean {
+  // Without a file name we cannot tell, so keep accepting JSX as before
+  if (!filePath) {
+    return true;
+  }
+  return /\.(?:tsx|[cm]?jsx?)$/.test(filePath);
+}
+
+export function parseSource(
+  sourceCode: string,
+  filePath?: string
+): TSESTree.Program {
+  return parseTypeScript(sourceCode, {
+    jsx: isJsxFile(filePath),
+    loc: true,
+    range: true,
+    comment: true,
+  });
+}
+
+export function getBoundNames(pattern: TSESTree.Node | null): string[] {
+  if (!pattern) {
+    return [];
+  }
+
+  switch (pattern.type) {
+    case "Identifier":
+      return [pattern.name];
+    case "ObjectPattern":
+      return pattern.properties.flatMap((property) =>
+        property.type === "RestElement"
+          ? getBoundNames(property.argument)
+          : getBoundNames(property.value)
+      );
+    case "ArrayPattern":
+      return pattern.elements.flatMap((element) => getBoundNames(element));
+    case "RestElement":
+      return getBoundNames(pattern.argument);
+    case "AssignmentPattern":
+      return getBoundNames(pattern.left);
+    default:
+      return [];
+  }
+}
+
+export function createLineLocator(
+  sourceCode: string
+): (offset: number) => number {
+  const lineStarts = [0];
+  for (let i = 0; i < sourceCode.length; i++) {
+    if (sourceCode[i] === "\n") {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  return (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  };
+}
+
+export function isPropertyName(
+  node: TSESTree.Node,
+  parent: TSESTree.Node | undefined
+): boolean {
+  if (!parent) {
+    return false;
+  }
+
+  switch (parent.type) {
+    case "MemberExpression":
+      return parent.property === node && !parent.computed;
+    case "Property":
+    case "PropertyDefinition":
+    case "MethodDefinition":
+    case "TSPropertySignature":
+    case "TSMethodSignature":
+      return parent.key === node && !parent.computed;
+    case "TSQualifiedName":
+      return parent.right === node;
+    case "TSEnumMember":
+      return parent.id === node;
+    case "JSXAttribute":
+      return true;
+    default:
+      return false;
+  }
+}
+
+// Names of every identifier the node refers to. Shadowing is ignored, so the
+// result may contain local names; callers only match it against top-level
+// declarations and imports. With a range, only identifiers inside it count.
+export function collectReferences(
+  node: TSESTree.Node,
+  range?: [number, number]
+): Set<string> {
+  const references = new Set<string>();
+
+  simpleTraverse(node, {
+    enter(child, parent) {
+      if (
+        (child.type === "Identifier" || child.type === "JSXIdentifier") &&
+        !isPropertyName(child, parent) &&
+        (!range || (child.range[0] >= range[0] && child.range[1] <= range[1]))
+      ) {
+        references.add(child.name);
+      }
+    },
+  });
+
+  return references;
+}
@@ -0,0 +1,153 @@
+import {
+  DEFAULT_TEMPLATE,
+  DiagnosticsMode,
+  FormatOptions,
+  OutputFormat,
+} from "../services/OutputFormatter";
+import { RedactionOptions } from "../services/SecretRedactor";
+import { CopyMode } from "../services/QuickPickService";
+import { PromptTemplate, validPromptTemplates } from "./promptTemplates";
+import { DEFAULT_MODEL, resolveTokenBudget, TokenBudget } from "./tokenBudget";
+
+export interface ResolutionOptions {
+  includeNodeModules: boolean;
+  followTypeOnly: boolean;
+  followDynamic: boolean;
+  // Last-resort base directories for projects without a usable config
+  baseDirectories: string[];
+  // Files a directory import resolves to, in order
+  indexFiles: string[];
+  // Tried in order for extensionless specifiers
+  extensions: string[];
+  // Workspace-relative globs for files never followed or bundled
+  exclude: string[];
+}
+
+// Fractions of the target model's token budget
+export interface SizeLimits {
+  optimal: number;
+  warning: number;
+}
+
+export interface CopySettings {
+  // "ask" shows the copy options every time
+  defaultMode: "ask" | CopyMode;
+  // Deepest import level offered; 0 for no limit
+  maxDepth: number;
+  // Bundles above this many tokens need confirming; 0 for no limit
+  maxBundleTokens: number;
+}
+
+export interface CallerSettings {
+  contextLines: number;
+  maxUsagesPerCaller: number;
+}
+
+export interface TestSettings {
+  // Workspace-relative globs of test files
+  patterns: string[];
+}
+
+export interface HistorySettings {
+  // Bundles kept; 0 keeps none
+  size: number;
+}
+
+export interface PBCodeConfig {
+  resolution: ResolutionOptions;
+  copy: CopySettings;
+  budget: TokenBudget;
+  sizeLimits: SizeLimits;
+  output: FormatOptions;
+  callers: CallerSettings;
+  tests: TestSettings;
+  // Templates from settings; the workspace's .pbcode/prompts are read when
+  // copying
+  promptTemplates: PromptTemplate[];
+  history: HistorySettings;
+  redaction: RedactionOptions;
+}
+
+export const DEFAULT_TEST_PATTERNS = [
+  "**/*.{test,spec}.{ts,tsx,mts,cts,js,jsx,mjs,cjs}",
+  "**/__tests__/**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}",
+  "**/test_*.py",
+  "**/*_test.py",
+];
+
+// Anything that reads settings by key under the `pbcode` section, such as a
+// VS Code configuration or the keys of a settings.json file
+export interface SettingsReader {
+  get<T>(key: string, defaultValue: T): T;
+}
+
+export function readConfig(
+  config: SettingsReader,
+  workspaceRoot?: string
+): PBCodeConfig {
+  return {
+    resolution: {
+      includeNodeModules: config.get<boolean>("includeNodeModules", false),
+      followTypeOnly: config.get<boolean>("imports.followTypeOnly", true),
+      followDynamic: config.get<boolean>("imports.followDynamic", true),
+      baseDirectories: config.get<string[]>("resolution.baseDirectories", [
+        "",
+        "src",
+        "app",
+      ]),
+      indexFiles: config.get<string[]>("resolution.indexFiles", [
+        "page",
+        "index",
+      ]),
+      extensions: config.get<string[]>("resolution.extensions", [
+        ".ts",
+        ".tsx",
+        ".js",
+        ".jsx",
+      ]),
+      exclude: config.get<string[]>("exclude", []),
+    },
+    copy: {
+      defaultMode: config.get<"ask" | CopyMode>("defaultCopyMode", "ask"),
+      maxDepth: Math.max(0, config.get<number>("maxDepth", 0)),
+      maxBundleTokens: Math.max(0, config.get<number>("maxBundleTokens", 0)),
+    },
+    budget: resolveTokenBudget(
+      config.get<string>("targetModel", DEFAULT_MODEL),
+      config.get<Record<string, number>>("modelTokenBudgets", {})
+    ),
+    sizeLimits: {
+      optimal: config.get<number>("sizeLimits.optimal", 0.5),
+      warning: config.get<number>("sizeLimits.warning", 1),
+    },
+    output: {
+      format: config.get<OutputFormat>("output.format", "xml"),
+      relativePaths: config.get<boolean>("output.relativePaths", true),
+      lineRanges: config.get<boolean>("output.lineRanges", false),
+      template: config.get<string>("output.template", DEFAULT_TEMPLATE),
+      diagnostics: config.get<DiagnosticsMode>("output.diagnostics", "off"),
+      workspaceRoot,
+    },
+    callers: {
+      contextLines: Math.max(0, config.get<number>("callers.contextLines", 5)),
+      maxUsagesPerCaller: Math.max(
+        1,
+        config.get<number>("callers.maxUsagesPerCaller", 3)
+      ),
+    },
+    tests: {
+      patterns: config.get<string[]>("tests.patterns", DEFAULT_TEST_PATTERNS),
+    },
+    promptTemplates: validPromptTemplates(
+      config.get<unknown>("promptTemplates", [])
+    ),
+    history: {
+      size: Math.max(0, config.get<number>("history.size", 20)),
+    },
+    redaction: {
+      enabled: config.get<boolean>("redaction.enabled", true),
+      allowPatterns: config.get<string[]>("redaction.allowPatterns", []),
+      denyPatterns: config.get<string[]>("redaction.denyPatterns", []),
+    },
+  };
+}
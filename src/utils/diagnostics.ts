@@ -0,0 +1,61 @@
+import * as vscode from "vscode";
+import { BundleDiagnostic, BundleFile, DiagnosticSeverity } from "../types";
+import { DiagnosticsMode } from "../services/OutputFormatter";
+
+// Hints are not shown in the Problems panel either
+const SEVERITIES: Partial<
+  Record<vscode.DiagnosticSeverity, DiagnosticSeverity>
+> = {
+  [vscode.DiagnosticSeverity.Error]: "error",
+  [vscode.DiagnosticSeverity.Warning]: "warning",
+  [vscode.DiagnosticSeverity.Information]: "info",
+};
+
+function toBundleDiagnostic(
+  diagnostic: vscode.Diagnostic,
+  lines?: string[]
+): BundleDiagnostic | undefined {
+  const severity = SEVERITIES[diagnostic.severity];
+  if (!severity) {
+    return undefined;
+  }
+  const code =
+    typeof diagnostic.code === "object"
+      ? diagnostic.code.value
+      : diagnostic.code;
+  return {
+    severity,
+    line: diagnostic.range.start.line,
+    message: diagnostic.message,
+    source: diagnostic.source,
+    code: code === undefined ? undefined : String(code),
+    text: lines?.[diagnostic.range.start.line],
+  };
+}
+
+// The Problems panel entries of every bundled file. The formatter keeps only
+// those inside the entities copied from dependency files.
+export function attachDiagnostics(
+  files: BundleFile[],
+  mode: DiagnosticsMode
+): BundleFile[] {
+  if (mode === "off") {
+    return files;
+  }
+  return files.map((file) => {
+    const document = vscode.workspace.textDocuments.find(
+      (d) => d.uri.fsPath === file.path
+    );
+    const lines = (document?.getText() ?? file.content)?.split(/\r?\n/);
+    return {
+      ...file,
+      diagnostics: vscode.languages
+        .getDiagnostics(vscode.Uri.file(file.path))
+        .map((diagnostic) => toBundleDiagnostic(diagnostic, lines))
+        .filter(
+          (diagnostic): diagnostic is BundleDiagnostic =>
+            diagnostic !== undefined
+        ),
+    };
+  });
+}
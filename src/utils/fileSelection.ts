@@ -0,0 +1,71 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { isBinaryFile } from "./fsUtils";
+import { IgnoreCache, isGitIgnored } from "./gitignore";
+import { getConfig } from "../services/VSCodeHost";
+import { isExcluded } from "./glob";
+
+const ALWAYS_EXCLUDED = "**/{node_modules,.git}/**";
+
+export interface FileSelection {
+  files: string[];
+  ignored: string[];
+  // Matched by `pbcode.exclude`
+  excluded: string[];
+  binary: string[];
+}
+
+async function filterBundleable(paths: string[]): Promise<FileSelection> {
+  const selection: FileSelection = {
+    files: [],
+    ignored: [],
+    excluded: [],
+    binary: [],
+  };
+  const cache: IgnoreCache = new Map();
+
+  for (const filePath of Array.from(new Set(paths)).sort()) {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(
+      vscode.Uri.file(filePath)
+    );
+    const root = workspaceFolder?.uri.fsPath ?? path.dirname(filePath);
+    const { exclude } = getConfig(vscode.Uri.file(filePath)).resolution;
+
+    if (await isGitIgnored(filePath, root, cache)) {
+      selection.ignored.push(filePath);
+    } else if (isExcluded(filePath, root, exclude)) {
+      selection.excluded.push(filePath);
+    } else if (await isBinaryFile(filePath)) {
+      selection.binary.push(filePath);
+    } else {
+      selection.files.push(filePath);
+    }
+  }
+
+  return selection;
+}
+
+// Files selected in the Explorer, with folders expanded to everything in them
+export async function gatherFiles(uris: vscode.Uri[]): Promise<FileSelection> {
+  const paths: string[] = [];
+
+  for (const uri of uris) {
+    const stat = await vscode.workspace.fs.stat(uri);
+    if (stat.type & vscode.FileType.Directory) {
+      const found = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(uri, "**/*"),
+        ALWAYS_EXCLUDED
+      );
+      paths.push(...found.map((file) => file.fsPath));
+    } else {
+      paths.push(uri.fsPath);
+    }
+  }
+
+  return filterBundleable(paths);
+}
+
+export async function findGlobFiles(pattern: string): Promise<FileSelection> {
+  const found = await vscode.workspace.findFiles(pattern, ALWAYS_EXCLUDED);
+  return filterBundleable(found.map((file) => file.fsPath));
+}
@@ -0,0 +1,74 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import { ResolutionOptions } from "./config";
+
+export type FileLookup = Pick<ResolutionOptions, "extensions" | "indexFiles">;
+
+export async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    const stats = await fs.stat(filePath);
+    return stats.isFile();
+  } catch {
+    return false;
+  }
+}
+
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+export async function tryExtensions(
+  basePath: string,
+  extensions: string[]
+): Promise<string | null> {
+  const found = await Promise.all(
+    extensions.map((ext) => fileExists(basePath + ext))
+  );
+  const index = found.indexOf(true);
+  if (index === -1) {
+    return null;
+  }
+  return basePath + extensions[index];
+}
+
+// Resolves a path that may already carry an extension, preferring TypeScript
+// sources over the compiled `.js` or `.d.ts` file it names
+export async function resolveFilePath(
+  candidate: string,
+  lookup: FileLookup
+): Promise<string | null> {
+  const withoutExtension = candidate.replace(/(?:\.d)?\.[cm]?[jt]sx?$/, "");
+  if (withoutExtension !== candidate) {
+    const source = await tryExtensions(withoutExtension, lookup.extensions);
+    if (source) {
+      return source;
+    }
+  }
+  if (await fileExists(candidate)) {
+    return candidate;
+  }
+
+  const found = await Promise.all(
+    [
+      candidate,
+      ...lookup.indexFiles.map((name) => path.join(candidate, name)),
+    ].map((basePath) => tryExtensions(basePath, lookup.extensions))
+  );
+  return found.find((result) => result !== null) ?? null;
+}
+
+// Git's heuristic: a NUL byte near the start means the file is not text
+export async function isBinaryFile(filePath: string): Promise<boolean> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(8000);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead).includes(0);
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,148 @@
+import * as path from "path";
+import { execFile } from "child_process";
+import { fileExists } from "./fsUtils";
+
+// Where a diff is taken from: the last commit for uncommitted changes, or the
+// merge-base with another branch for everything on the current branch
+export interface ChangeBase {
+  ref: string;
+  // e.g. "Uncommitted changes" or "Changes since main (merge-base 1a2b3c4)"
+  label: string;
+  // Untracked files only count as changes to the working tree
+  includeUntracked: boolean;
+}
+
+export interface ChangeSet {
+  label: string;
+  // Unified diff of every changed file
+  patch: string;
+  // Absolute paths of changed files that still exist, in diff order
+  files: string[];
+}
+
+// The diff of a whole repository can be large
+const MAX_OUTPUT = 64 * 1024 * 1024;
+
+function git(
+  repoRoot: string,
+  args: string[],
+  // `git diff --no-index` exits with 1 when the files differ
+  okExitCodes = [0]
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      args,
+      { cwd: repoRoot, maxBuffer: MAX_OUTPUT },
+      (error, stdout, stderr) => {
+        const code = error ? error.code : 0;
+        if (
+          error &&
+          !(typeof code === "number" && okExitCodes.includes(code))
+        ) {
+          reject(new Error(stderr.trim() || error.message));
+        } else {
+          resolve(stdout);
+        }
+      }
+    );
+  });
+}
+
+export async function findRepoRoot(directory: string): Promise<string> {
+  return (await git(directory, ["rev-parse", "--show-toplevel"])).trim();
+}
+
+// Local branches first, then remote ones, the default branch at the top
+export async function listBranches(repoRoot: string): Promise<string[]> {
+  const [current, refs, remoteHead] = await Promise.all([
+    git(repoRoot, ["branch", "--show-current"]),
+    git(repoRoot, [
+      "for-each-ref",
+      "--format=%(refname:short)%09%(symref)",
+      "refs/heads",
+      "refs/remotes",
+    ]),
+    git(repoRoot, [
+      "symbolic-ref",
+      "--short",
+      "refs/remotes/origin/HEAD",
+    ]).catch(() => ""),
+  ]);
+
+  const defaultBranch = remoteHead.trim();
+  // Symbolic refs such as origin/HEAD only point at another branch
+  const branches = refs
+    .split("\n")
+    .map((line) => line.split("\t"))
+    .filter(([ref, target]) => ref && !target && ref !== current.trim())
+    .map(([ref]) => ref);
+  return [
+    ...branches.filter((ref) => ref === defaultBranch),
+    ...branches.filter((ref) => ref !== defaultBranch),
+  ];
+}
+
+export function uncommittedChanges(): ChangeBase {
+  return { ref: "HEAD", label: "Uncommitted changes", includeUntracked: true };
+}
+
+// Everything since the current branch left `branch`, including uncommitted
+// edits to tracked files
+export async function branchChanges(
+  repoRoot: string,
+  branch: string
+): Promise<ChangeBase> {
+  const ref = (await git(repoRoot, ["merge-base", "HEAD", branch])).trim();
+  return {
+    ref,
+    label: `Changes since ${branch} (merge-base ${ref.slice(0, 7)})`,
+    includeUntracked: false,
+  };
+}
+
+// Paths are relative to the repository root
+async function untrackedFiles(repoRoot: string): Promise<string[]> {
+  const output = await git(repoRoot, [
+    "ls-files",
+    "--others",
+    "--exclude-standard",
+    "-z",
+  ]);
+  return output.split("\0").filter(Boolean);
+}
+
+export async function readChanges(
+  repoRoot: string,
+  base: ChangeBase
+): Promise<ChangeSet> {
+  // Against the working tree, so staged and unstaged edits both count
+  const [patch, names, untracked] = await Promise.all([
+    git(repoRoot, ["diff", "--no-color", "--no-ext-diff", base.ref, "--"]),
+    git(repoRoot, ["diff", "--name-only", "-z", base.ref, "--"]),
+    base.includeUntracked ? untrackedFiles(repoRoot) : Promise.resolve([]),
+  ]);
+
+  // New files have no diff against any commit until they are added
+  const untrackedPatches = await Promise.all(
+    untracked.map((file) =>
+      git(
+        repoRoot,
+        ["diff", "--no-color", "--no-index", "--", "/dev/null", file],
+        [0, 1]
+      )
+    )
+  );
+
+  const changed = [...names.split("\0").filter(Boolean), ...untracked].map(
+    (file) => path.join(repoRoot, file)
+  );
+  // Deleted files only appear in the diff
+  const existing = await Promise.all(changed.map(fileExists));
+
+  return {
+    label: base.label,
+    patch: [patch, ...untrackedPatches].join("").trimEnd(),
+    files: changed.filter((_, i) => existing[i]),
+  };
+}
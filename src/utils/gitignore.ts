@@ -0,0 +1,119 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import { globToRegExp } from "./glob";
+
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+// .gitignore rules per directory, shared across lookups in one command
+export type IgnoreCache = Map<string, Promise<IgnoreRule[]>>;
+
+function parseRule(line: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (!pattern || pattern.startsWith("#")) {
+    return null;
+  }
+
+  const negated = pattern.startsWith("!");
+  if (negated) {
+    pattern = pattern.slice(1);
+  }
+  const directoryOnly = pattern.endsWith("/");
+  pattern = pattern.replace(/\/+$/, "");
+  // A slash anywhere but the end anchors the pattern to its .gitignore
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\//, "");
+  if (!pattern) {
+    return null;
+  }
+
+  const body = globToRegExp(pattern);
+  return {
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+    negated,
+    directoryOnly,
+  };
+}
+
+async function loadRules(
+  directory: string,
+  cache: IgnoreCache
+): Promise<IgnoreRule[]> {
+  let rules = cache.get(directory);
+  if (!rules) {
+    rules = fs
+      .readFile(path.join(directory, ".gitignore"), "utf-8")
+      .then((content) =>
+        content
+          .split(/\r?\n/)
+          .map(parseRule)
+          .filter((rule): rule is IgnoreRule => rule !== null)
+      )
+      .catch(() => []);
+    cache.set(directory, rules);
+  }
+  return rules;
+}
+
+async function matchesRules(
+  entryPath: string,
+  isDirectory: boolean,
+  workspaceRoot: string,
+  cache: IgnoreCache
+): Promise<boolean> {
+  const segments = path
+    .relative(workspaceRoot, path.dirname(entryPath))
+    .split(path.sep)
+    .filter(Boolean);
+  const directories = [
+    workspaceRoot,
+    ...segments.map((_, i) =>
+      path.join(workspaceRoot, ...segments.slice(0, i + 1))
+    ),
+  ];
+
+  // Deeper .gitignore files and later lines override earlier ones
+  let ignored = false;
+  for (const directory of directories) {
+    const relativePath = path
+      .relative(directory, entryPath)
+      .split(path.sep)
+      .join("/");
+    for (const rule of await loadRules(directory, cache)) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.regex.test(relativePath)) {
+        ignored = !rule.negated;
+      }
+    }
+  }
+  return ignored;
+}
+
+// Whether git would ignore the file, given the .gitignore files between it
+// and the workspace root
+export async function isGitIgnored(
+  filePath: string,
+  workspaceRoot: string,
+  cache: IgnoreCache
+): Promise<boolean> {
+  const relative = path.relative(workspaceRoot, filePath);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    return false;
+  }
+
+  // Files inside an ignored directory cannot be re-included
+  const segments = relative.split(path.sep);
+  for (let i = 1; i <= segments.length; i++) {
+    const entryPath = path.join(workspaceRoot, ...segments.slice(0, i));
+    const isDirectory = i < segments.length;
+    if (await matchesRules(entryPath, isDirectory, workspaceRoot, cache)) {
+      return true;
+    }
+  }
+  return false;
+}
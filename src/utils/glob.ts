@@ -0,0 +1,75 @@
+import * as path from "path";
+
+export function globToRegExp(glob: string): string {
+  let result = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // `**/` matches zero or more directories, a trailing `**` everything
+        if (glob[i + 2] === "/") {
+          result += "(?:.*/)?";
+          i += 2;
+        } else {
+          result += ".*";
+          i += 1;
+        }
+      } else {
+        result += "[^/]*";
+      }
+    } else if (char === "?") {
+      result += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        result += "\\[";
+      } else {
+        result += glob.slice(i, end + 1).replace(/^\[!/, "[^");
+        i = end;
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      result += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else {
+      result += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return result;
+}
+
+// `{a,b}` alternatives, which .gitignore lacks but VS Code globs support
+function expandBraces(glob: string): string[] {
+  const match = /\{([^{}]*)\}/.exec(glob);
+  if (!match) {
+    return [glob];
+  }
+  const before = glob.slice(0, match.index);
+  const after = glob.slice(match.index + match[0].length);
+  return match[1]
+    .split(",")
+    .flatMap((alternative) => expandBraces(before + alternative + after));
+}
+
+export function matchesGlob(relativePath: string, glob: string): boolean {
+  return expandBraces(glob).some((pattern) =>
+    new RegExp(`^${globToRegExp(pattern)}$`).test(relativePath)
+  );
+}
+
+// Whether a workspace-relative glob in the `pbcode.exclude` setting covers
+// the file. Files outside the workspace are never excluded.
+export function isExcluded(
+  filePath: string,
+  workspaceRoot: string,
+  patterns: string[]
+): boolean {
+  const relative = path.relative(workspaceRoot, filePath);
+  if (
+    patterns.length === 0 ||
+    relative.startsWith("..") ||
+    path.isAbsolute(relative)
+  ) {
+    return false;
+  }
+  const relativePath = relative.split(path.sep).join("/");
+  return patterns.some((pattern) => matchesGlob(relativePath, pattern));
+}
@@ -0,0 +1,65 @@
+import * as path from "path";
+import { loadNearestConfig } from "./tsconfig";
+import { findWorkspacePackages } from "./packageResolution";
+
+// Specifiers such as "." or "../.." import an index file without naming it
+const DIRECTORY_SPECIFIER = /(["'`])\.\.?(?:\/\.\.)*\/?\1/;
+
+function contains(directory: string, filePath: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+// Lowercase names one of which any import of `targetPath` contains: its own
+// name, the directories above it that barrels and index files are imported
+// by, path aliases onto those directories and the workspace package holding it
+export async function importHints(
+  targetPath: string,
+  workspaceRoot: string
+): Promise<string[]> {
+  const hints = new Set<string>([
+    path.basename(targetPath).replace(/\.[^.]+$/, ""),
+  ]);
+
+  let directory = path.dirname(targetPath);
+  while (
+    contains(workspaceRoot, directory) &&
+    path.relative(workspaceRoot, directory) !== ""
+  ) {
+    hints.add(path.basename(directory));
+    directory = path.dirname(directory);
+  }
+
+  const config = await loadNearestConfig(targetPath, workspaceRoot);
+  for (const [alias, targets] of Object.entries(config.paths)) {
+    if (
+      targets.some((target) =>
+        contains(
+          path.resolve(config.pathsBasePath, target.replace(/\*.*$/, "")),
+          targetPath
+        )
+      )
+    ) {
+      hints.add(alias.replace(/\/?\*.*$/, ""));
+    }
+  }
+
+  for (const [name, packageDirectory] of await findWorkspacePackages(
+    workspaceRoot
+  )) {
+    if (contains(packageDirectory, targetPath)) {
+      hints.add(name);
+    }
+  }
+
+  return Array.from(hints, (hint) => hint.toLowerCase());
+}
+
+// Cheap text check before parsing and resolving every import of a file
+export function mayImport(content: string, hints: string[]): boolean {
+  const text = content.toLowerCase();
+  return (
+    DIRECTORY_SPECIFIER.test(content) ||
+    hints.some((hint) => text.includes(hint))
+  );
+}
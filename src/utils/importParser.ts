@@ -1,48 +1,402 @@
-import { parse as parseTypeScript } from "@typescript-eslint/typescript-estree";
-import { ImportInfo } from "../types";
+import { simpleTraverse, TSESTree } from "@typescript-eslint/typescript-estree";
+import {
+  ImportDeclaration,
+  ImportInfo,
+  ImportKind,
+  ModuleExports,
+} from "../types";
+import { getBoundNames, isPropertyName, parseSource } from "./astUtils";
 
-export function parseImports(sourceCode: string): ImportInfo[] {
-  const ast = parseTypeScript(sourceCode, { jsx: true });
+export function parseImports(
+  sourceCode: string,
+  filePath?: string
+): ImportInfo[] {
+  const ast = parseSource(sourceCode, filePath);
   const imports: ImportInfo[] = [];
 
   for (const node of ast.body) {
-    if (node.type === "ImportDeclaration") {
-      const importInfo: ImportInfo = {
-        source: node.source.value as string,
-        imports: [],
-        resolvedPath: "",
-      };
-
-      for (const specifier of node.specifiers) {
-        switch (specifier.type) {
-          case "ImportDefaultSpecifier":
-            importInfo.imports.push({
-              name: specifier.local.name,
-              isDefault: true,
-            });
-            break;
-          case "ImportSpecifier":
-            const importedName =
-              "name" in specifier.imported
-                ? specifier.imported.name
-                : specifier.imported.value;
-            importInfo.imports.push({
-              name: importedName,
-              alias: specifier.local.name,
-            });
-            break;
-          case "ImportNamespaceSpecifier":
-            importInfo.imports.push({
-              name: specifier.local.name,
+    switch (node.type) {
+      case "ImportDeclaration":
+        imports.push(parseImportDeclaration(node));
+        break;
+
+      case "ExportNamedDeclaration":
+        if (node.source) {
+          imports.push(parseExportFrom(node, node.source.value));
+        }
+        break;
+
+      case "ExportAllDeclaration":
+        imports.push({
+          source: node.source.value,
+          imports: [
+            {
+              name: node.exported ? moduleExportName(node.exported) : "*",
               isNamespace: true,
-            });
-            break;
+              kind: node.exportKind === "type" ? "type" : "re-export",
+            },
+          ],
+          resolvedPath: "",
+          kind: node.exportKind === "type" ? "type" : "re-export",
+        });
+        break;
+
+      // `import x = require("./x")`
+      case "TSImportEqualsDeclaration":
+        if (
+          node.moduleReference.type === "TSExternalModuleReference" &&
+          node.moduleReference.expression.type === "Literal"
+        ) {
+          const kind = node.importKind === "type" ? "type" : "require";
+          imports.push({
+            source: node.moduleReference.expression.value as string,
+            imports: [{ name: node.id.name, isNamespace: true, kind }],
+            resolvedPath: "",
+            kind,
+          });
         }
-      }
+        break;
+    }
+  }
+
+  imports.push(...findRuntimeImports(ast));
+  recordNamespaceMembers(ast, imports);
+
+  return imports;
+}
 
-      imports.push(importInfo);
+function statementKind(
+  declarations: ImportDeclaration[],
+  kind: ImportKind
+): ImportKind {
+  if (declarations.length === 0) {
+    return kind === "static" ? "side-effect" : kind;
+  }
+  return declarations.every((declaration) => declaration.kind === "type")
+    ? "type"
+    : kind;
+}
+
+function parseImportDeclaration(node: TSESTree.ImportDeclaration): ImportInfo {
+  const typeOnly = node.importKind === "type";
+  const declarations: ImportDeclaration[] = [];
+
+  for (const specifier of node.specifiers) {
+    switch (specifier.type) {
+      case "ImportDefaultSpecifier":
+        declarations.push({
+          name: specifier.local.name,
+          isDefault: true,
+          kind: typeOnly ? "type" : "static",
+        });
+        break;
+      case "ImportSpecifier":
+        declarations.push({
+          name: moduleExportName(specifier.imported),
+          alias: specifier.local.name,
+          kind: typeOnly || specifier.importKind === "type" ? "type" : "static",
+        });
+        break;
+      case "ImportNamespaceSpecifier":
+        declarations.push({
+          name: specifier.local.name,
+          isNamespace: true,
+          kind: typeOnly ? "type" : "static",
+        });
+        break;
     }
   }
 
+  return {
+    source: node.source.value,
+    imports: declarations,
+    resolvedPath: "",
+    kind: statementKind(declarations, "static"),
+  };
+}
+
+// `export { a, b as c } from "./x"`
+function parseExportFrom(
+  node: TSESTree.ExportNamedDeclaration,
+  source: string
+): ImportInfo {
+  const declarations = node.specifiers.map(
+    (specifier): ImportDeclaration => ({
+      name: moduleExportName(specifier.local),
+      alias: moduleExportName(specifier.exported),
+      kind:
+        node.exportKind === "type" || specifier.exportKind === "type"
+          ? "type"
+          : "re-export",
+    })
+  );
+  return {
+    source,
+    imports: declarations,
+    resolvedPath: "",
+    kind: statementKind(declarations, "re-export"),
+  };
+}
+
+// Called on the promise `import()` returns rather than on the module
+const PROMISE_METHODS = new Set(["then", "catch", "finally"]);
+
+function staticSpecifier(node: TSESTree.Node | undefined): string | null {
+  if (node?.type === "Literal" && typeof node.value === "string") {
+    return node.value;
+  }
+  if (node?.type === "TemplateLiteral" && node.expressions.length === 0) {
+    return node.quasis[0].value.cooked;
+  }
+  return null;
+}
+
+// The names a `require()` or `import()` result is bound to, e.g.
+// `const { a, b: c } = require("./x")` or `const m = await import("./x")`
+function runtimeBindings(
+  call: TSESTree.Node,
+  kind: ImportKind
+): ImportDeclaration[] | null {
+  let node: TSESTree.Node = call;
+  let parent = node.parent;
+  if (parent?.type === "AwaitExpression") {
+    node = parent;
+    parent = node.parent;
+  }
+
+  let member: string | undefined;
+  if (
+    parent?.type === "MemberExpression" &&
+    parent.object === node &&
+    !parent.computed &&
+    parent.property.type === "Identifier"
+  ) {
+    if (node === call && PROMISE_METHODS.has(parent.property.name)) {
+      // The callback may use any export
+      return [{ name: "*", isNamespace: true, kind }];
+    }
+    member = parent.property.name;
+    node = parent;
+    parent = node.parent;
+  }
+
+  if (parent?.type === "ExpressionStatement" && member === undefined) {
+    return null;
+  }
+
+  if (parent?.type !== "VariableDeclarator" || parent.init !== node) {
+    return [{ name: member ?? "*", isNamespace: member === undefined, kind }];
+  }
+
+  const id = parent.id;
+  if (id.type === "Identifier") {
+    return member !== undefined
+      ? [{ name: member, alias: id.name, kind }]
+      : [{ name: id.name, isNamespace: true, kind }];
+  }
+  if (id.type !== "ObjectPattern" || member !== undefined) {
+    return [{ name: member ?? "*", isNamespace: member === undefined, kind }];
+  }
+
+  const declarations: ImportDeclaration[] = [];
+  for (const property of id.properties) {
+    if (property.type === "RestElement") {
+      // The rest object may hold any export
+      return [{ name: "*", isNamespace: true, kind }];
+    }
+    if (property.computed || property.key.type !== "Identifier") {
+      continue;
+    }
+    const value =
+      property.value.type === "AssignmentPattern"
+        ? property.value.left
+        : property.value;
+    declarations.push({
+      name: property.key.name,
+      alias: value.type === "Identifier" ? value.name : undefined,
+      kind,
+    });
+  }
+  return declarations;
+}
+
+// `require("./x")` and `import("./x")` calls anywhere in the file
+function findRuntimeImports(ast: TSESTree.Program): ImportInfo[] {
+  const imports: ImportInfo[] = [];
+
+  simpleTraverse(
+    ast,
+    {
+      enter(node) {
+        let source: string | null = null;
+        let kind: ImportKind;
+        if (node.type === "ImportExpression") {
+          source = staticSpecifier(node.source);
+          kind = "dynamic";
+        } else if (
+          node.type === "CallExpression" &&
+          node.callee.type === "Identifier" &&
+          node.callee.name === "require" &&
+          node.arguments.length === 1
+        ) {
+          source = staticSpecifier(node.arguments[0]);
+          kind = "require";
+        } else {
+          return;
+        }
+        if (source === null) {
+          return;
+        }
+
+        const bindings = runtimeBindings(node, kind);
+        imports.push({
+          source,
+          imports: bindings ?? [],
+          resolvedPath: "",
+          kind: bindings ? kind : "side-effect",
+        });
+      },
+    },
+    true
+  );
+
   return imports;
 }
+
+function namespaceMemberOf(
+  node: TSESTree.Node,
+  parent: TSESTree.Node | undefined
+): string | null {
+  switch (parent?.type) {
+    case "MemberExpression":
+      if (parent.object !== node) {
+        return null;
+      }
+      if (!parent.computed && parent.property.type === "Identifier") {
+        return parent.property.name;
+      }
+      if (
+        parent.property.type === "Literal" &&
+        typeof parent.property.value === "string"
+      ) {
+        return parent.property.value;
+      }
+      return null;
+    case "TSQualifiedName":
+      return parent.left === node ? parent.right.name : null;
+    case "JSXMemberExpression":
+      return parent.object === node ? parent.property.name : null;
+    default:
+      return null;
+  }
+}
+
+// Records which `ns.member` accesses the file makes for every namespace
+// import. A namespace that is used as a value on its own keeps `members`
+// undefined, since any of its exports may be reached.
+function recordNamespaceMembers(
+  ast: TSESTree.Program,
+  imports: ImportInfo[]
+): void {
+  const namespaces = new Map<string, ImportDeclaration>();
+  for (const importInfo of imports) {
+    for (const declaration of importInfo.imports) {
+      if (declaration.isNamespace && declaration.name !== "*") {
+        namespaces.set(declaration.name, declaration);
+      }
+    }
+  }
+  if (namespaces.size === 0) {
+    return;
+  }
+
+  const members = new Map<string, Set<string>>();
+  const escaped = new Set<string>();
+
+  simpleTraverse(ast, {
+    enter(node, parent) {
+      if (
+        (node.type !== "Identifier" && node.type !== "JSXIdentifier") ||
+        !namespaces.has(node.name) ||
+        parent?.type === "ImportNamespaceSpecifier" ||
+        isPropertyName(node, parent) ||
+        // The binding of `const ns = require("./x")` or `import ns = ...`
+        ((parent?.type === "VariableDeclarator" ||
+          parent?.type === "TSImportEqualsDeclaration") &&
+          parent.id === node)
+      ) {
+        return;
+      }
+
+      const member = namespaceMemberOf(node, parent);
+      if (member === null) {
+        escaped.add(node.name);
+        return;
+      }
+      if (!members.has(node.name)) {
+        members.set(node.name, new Set());
+      }
+      members.get(node.name)!.add(member);
+    },
+  });
+
+  for (const [name, declaration] of namespaces) {
+    if (!escaped.has(name)) {
+      declaration.members = Array.from(members.get(name) ?? []);
+    }
+  }
+}
+
+function moduleExportName(
+  node: TSESTree.Identifier | TSESTree.StringLiteral
+): string {
+  return node.type === "Identifier" ? node.name : node.value;
+}
+
+export function parseExports(
+  sourceCode: string,
+  filePath?: string
+): ModuleExports {
+  const ast = parseSource(sourceCode, filePath);
+  const moduleExports: ModuleExports = { declared: [], reExports: [] };
+
+  for (const node of ast.body) {
+    switch (node.type) {
+      case "ExportAllDeclaration":
+        moduleExports.reExports.push({
+          source: node.source.value,
+          exported: node.exported ? moduleExportName(node.exported) : "*",
+          local: "*",
+        });
+        break;
+
+      case "ExportNamedDeclaration":
+        if (node.declaration) {
+          const declaration = node.declaration;
+          if (declaration.type === "VariableDeclaration") {
+            for (const declarator of declaration.declarations) {
+              moduleExports.declared.push(...getBoundNames(declarator.id));
+            }
+          } else if (declaration.id?.type === "Identifier") {
+            moduleExports.declared.push(declaration.id.name);
+          }
+          break;
+        }
+
+        for (const specifier of node.specifiers) {
+          moduleExports.reExports.push({
+            source: node.source?.value,
+            exported: moduleExportName(specifier.exported),
+            local: moduleExportName(specifier.local),
+          });
+        }
+        break;
+
+      case "ExportDefaultDeclaration":
+        moduleExports.declared.push("default");
+        break;
+    }
+  }
+
+  return moduleExports;
+}
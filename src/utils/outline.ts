@@ -0,0 +1,76 @@
+import { simpleTraverse } from "@typescript-eslint/typescript-estree";
+import { parseSource } from "./astUtils";
+import { LanguageRegistry } from "../services/LanguageRegistry";
+import { BundleEntity, BundleFile } from "../types";
+
+// Replaces every function and method body with `{ ... }`, keeping
+// signatures, types, interfaces and comments outside the bodies intact.
+// TypeScript and JavaScript only; other languages outline through their
+// provider.
+export function outlineSource(sourceCode: string, filePath?: string): string {
+  let ast;
+  try {
+    ast = parseSource(sourceCode, filePath);
+  } catch (error) {
+    console.error("Failed to outline source:", error);
+    return sourceCode;
+  }
+
+  const bodies: Array<[number, number]> = [];
+  simpleTraverse(ast, {
+    enter(node) {
+      if (
+        (node.type === "FunctionDeclaration" ||
+          node.type === "FunctionExpression" ||
+          node.type === "ArrowFunctionExpression") &&
+        node.body?.type === "BlockStatement"
+      ) {
+        bodies.push(node.body.range);
+      }
+    },
+  });
+
+  bodies.sort((a, b) => a[0] - b[0]);
+
+  let outlined = "";
+  let position = 0;
+  for (const [start, end] of bodies) {
+    // Bodies nested in one that was already replaced
+    if (start < position) {
+      continue;
+    }
+    outlined += sourceCode.slice(position, start) + "{ ... }";
+    position = end;
+  }
+  return outlined + sourceCode.slice(position);
+}
+
+// Entities of files no provider handles are returned unchanged
+export function outlineEntity(
+  entity: BundleEntity,
+  filePath: string,
+  languages: LanguageRegistry
+): BundleEntity {
+  const provider = languages.forPath(filePath);
+  return provider
+    ? {
+        ...entity,
+        content: provider.outline(entity.content, filePath),
+        collapsed: true,
+      }
+    : entity;
+}
+
+// Signatures only for dependency entities; files copied whole and entities
+// of the active file stay in full
+export function outlineDependencies(
+  files: BundleFile[],
+  languages: LanguageRegistry
+): BundleFile[] {
+  return files.map((file) => ({
+    ...file,
+    entities: file.entities.map((entity) =>
+      entity.depth > 0 ? outlineEntity(entity, file.path, languages) : entity
+    ),
+  }));
+}
@@ -0,0 +1,366 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import { PackageJson } from "../types";
+import {
+  FileLookup,
+  fileExists,
+  readJsonFile,
+  resolveFilePath,
+} from "./fsUtils";
+
+// Conditions tried in order when a package.json `exports` or `imports` entry
+// is a conditional object. Source-oriented conditions come first so bundles
+// show TypeScript rather than compiled output.
+const EXPORT_CONDITIONS = [
+  "source",
+  "types",
+  "typings",
+  "import",
+  "module",
+  "require",
+  "node",
+  "default",
+];
+
+const IGNORED_DIRECTORIES = new Set(["node_modules", ".git"]);
+
+export function splitPackageSpecifier(specifier: string): {
+  packageName: string;
+  subpath: string;
+} {
+  const segments = specifier.split("/");
+  const nameLength = specifier.startsWith("@") ? 2 : 1;
+  const rest = segments.slice(nameLength).join("/");
+  return {
+    packageName: segments.slice(0, nameLength).join("/"),
+    subpath: rest ? `./${rest}` : ".",
+  };
+}
+
+function parsePnpmWorkspacePatterns(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of content.split("\n")) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (!inPackages) {
+      continue;
+    }
+    const item = line.match(/^\s*-\s*(.+?)\s*$/);
+    if (item) {
+      patterns.push(item[1].replace(/^['"]|['"]$/g, ""));
+    } else if (/^\S/.test(line)) {
+      break;
+    }
+  }
+
+  return patterns;
+}
+
+async function readWorkspacePatterns(
+  directory: string
+): Promise<string[] | null> {
+  try {
+    const content = await fs.readFile(
+      path.join(directory, "pnpm-workspace.yaml"),
+      "utf-8"
+    );
+    return parsePnpmWorkspacePatterns(content);
+  } catch {
+    // Not a pnpm workspace
+  }
+
+  const packageJson = await readJsonFile<PackageJson>(
+    path.join(directory, "package.json")
+  );
+  const workspaces = packageJson?.workspaces;
+  if (Array.isArray(workspaces)) {
+    return workspaces;
+  }
+  if (workspaces && Array.isArray(workspaces.packages)) {
+    return workspaces.packages;
+  }
+  return null;
+}
+
+function segmentToRegExp(segment: string): RegExp {
+  const escaped = segment
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, "[^/]*")
+    .replace(/\?/g, "[^/]");
+  return new RegExp(`^${escaped}$`);
+}
+
+async function expandPattern(
+  directory: string,
+  segments: string[],
+  matches: Set<string>
+): Promise<void> {
+  if (segments.length === 0) {
+    if (await fileExists(path.join(directory, "package.json"))) {
+      matches.add(directory);
+    }
+    return;
+  }
+
+  const [segment, ...rest] = segments;
+  if (!segment.includes("*") && !segment.includes("?")) {
+    return expandPattern(path.join(directory, segment), rest, matches);
+  }
+
+  let entries: string[];
+  try {
+    const dirents = await fs.readdir(directory, { withFileTypes: true });
+    entries = dirents
+      .filter(
+        (dirent) =>
+          dirent.isDirectory() &&
+          !IGNORED_DIRECTORIES.has(dirent.name) &&
+          !dirent.name.startsWith(".")
+      )
+      .map((dirent) => dirent.name);
+  } catch {
+    return;
+  }
+
+  if (segment === "**") {
+    await expandPattern(directory, rest, matches);
+    for (const entry of entries) {
+      await expandPattern(path.join(directory, entry), segments, matches);
+    }
+    return;
+  }
+
+  const matcher = segmentToRegExp(segment);
+  for (const entry of entries.filter((name) => matcher.test(name))) {
+    await expandPattern(path.join(directory, entry), rest, matches);
+  }
+}
+
+async function findWorkspaceDefinition(
+  workspaceRoot: string
+): Promise<{ root: string; patterns: string[] } | null> {
+  // The opened folder may itself be one package of a larger monorepo
+  let directory = workspaceRoot;
+  while (true) {
+    const patterns = await readWorkspacePatterns(directory);
+    if (patterns) {
+      return { root: directory, patterns };
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+}
+
+// Maps the name of every local package declared by npm/yarn `workspaces` or
+// pnpm-workspace.yaml to its directory
+export async function findWorkspacePackages(
+  workspaceRoot: string
+): Promise<Map<string, string>> {
+  const packages = new Map<string, string>();
+  const definition = await findWorkspaceDefinition(workspaceRoot);
+  if (!definition) {
+    return packages;
+  }
+
+  const included = new Set<string>();
+  const excluded = new Set<string>();
+  for (const pattern of definition.patterns) {
+    const negated = pattern.startsWith("!");
+    const segments = pattern
+      .replace(/^!/, "")
+      .replace(/^\.\//, "")
+      .replace(/\/+$/, "")
+      .split("/")
+      .filter(Boolean);
+    await expandPattern(
+      definition.root,
+      segments,
+      negated ? excluded : included
+    );
+  }
+
+  for (const directory of included) {
+    if (excluded.has(directory)) {
+      continue;
+    }
+    const packageJson = await readJsonFile<PackageJson>(
+      path.join(directory, "package.json")
+    );
+    if (packageJson?.name) {
+      packages.set(packageJson.name, directory);
+    }
+  }
+
+  return packages;
+}
+
+function resolveConditionalTarget(target: unknown): string | null {
+  if (typeof target === "string") {
+    return target;
+  }
+  if (Array.isArray(target)) {
+    for (const entry of target) {
+      const resolved = resolveConditionalTarget(entry);
+      if (resolved) {
+        return resolved;
+      }
+    }
+    return null;
+  }
+  if (target && typeof target === "object") {
+    const conditions = target as Record<string, unknown>;
+    for (const condition of EXPORT_CONDITIONS) {
+      if (condition in conditions) {
+        const resolved = resolveConditionalTarget(conditions[condition]);
+        if (resolved) {
+          return resolved;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+// Looks a subpath up in an `exports` or `imports` map, including `*` patterns
+export function matchPackageMap(map: unknown, subpath: string): string | null {
+  if (typeof map === "string" || Array.isArray(map)) {
+    return subpath === "." ? resolveConditionalTarget(map) : null;
+  }
+  if (!map || typeof map !== "object") {
+    return null;
+  }
+
+  const entries = map as Record<string, unknown>;
+  const keys = Object.keys(entries);
+  // A conditions object applies to the package root only
+  if (keys.length > 0 && !keys.some((key) => /^[.#]/.test(key))) {
+    return subpath === "." ? resolveConditionalTarget(map) : null;
+  }
+
+  if (subpath in entries) {
+    return resolveConditionalTarget(entries[subpath]);
+  }
+
+  // The longest matching prefix wins, as in Node's resolver
+  const patterns = keys
+    .filter((key) => key.includes("*"))
+    .sort((a, b) => b.indexOf("*") - a.indexOf("*"));
+  for (const key of patterns) {
+    const [prefix, suffix] = key.split("*");
+    if (
+      subpath.startsWith(prefix) &&
+      subpath.endsWith(suffix) &&
+      subpath.length >= prefix.length + suffix.length
+    ) {
+      const target = resolveConditionalTarget(entries[key]);
+      const replacement = subpath.slice(
+        prefix.length,
+        subpath.length - suffix.length
+      );
+      return target ? target.split("*").join(replacement) : null;
+    }
+  }
+
+  return null;
+}
+
+export async function resolvePackageEntry(
+  packageDirectory: string,
+  subpath: string,
+  lookup: FileLookup
+): Promise<string | null> {
+  const packageJson = await readJsonFile<PackageJson>(
+    path.join(packageDirectory, "package.json")
+  );
+  if (!packageJson) {
+    return null;
+  }
+
+  if (packageJson.exports !== undefined) {
+    const target = matchPackageMap(packageJson.exports, subpath);
+    return target
+      ? resolveFilePath(path.join(packageDirectory, target), lookup)
+      : null;
+  }
+
+  if (subpath !== ".") {
+    return resolveFilePath(path.join(packageDirectory, subpath), lookup);
+  }
+
+  for (const field of [
+    packageJson.types,
+    packageJson.typings,
+    packageJson.main,
+  ]) {
+    if (typeof field === "string") {
+      const resolved = await resolveFilePath(
+        path.join(packageDirectory, field),
+        lookup
+      );
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+  return resolveFilePath(packageDirectory, lookup);
+}
+
+// Resolves `#internal/*` subpath imports against the nearest package.json
+// that declares `imports`
+export async function resolveSubpathImport(
+  specifier: string,
+  currentFilePath: string,
+  lookup: FileLookup
+): Promise<string | null> {
+  let directory = path.dirname(currentFilePath);
+
+  while (true) {
+    const packageJson = await readJsonFile<PackageJson>(
+      path.join(directory, "package.json")
+    );
+    if (packageJson?.imports) {
+      const target = matchPackageMap(packageJson.imports, specifier);
+      if (!target) {
+        return null;
+      }
+      // Targets naming a third-party package are not followed
+      return target.startsWith(".")
+        ? resolveFilePath(path.join(directory, target), lookup)
+        : null;
+    }
+
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+}
+
+export async function resolveNodeModule(
+  specifier: string,
+  fromDirectory: string,
+  lookup: FileLookup
+): Promise<string | null> {
+  const { packageName, subpath } = splitPackageSpecifier(specifier);
+  let directory = fromDirectory;
+
+  while (true) {
+    const packageDirectory = path.join(directory, "node_modules", packageName);
+    if (await fileExists(path.join(packageDirectory, "package.json"))) {
+      return resolvePackageEntry(packageDirectory, subpath, lookup);
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+}
@@ -1,116 +1,454 @@
-import * as vscode from "vscode";
 import * as path from "path";
-import * as fs from "fs/promises";
-import { TSConfig, ImportInfo } from "../types";
+import { ImportInfo, ImportDeclaration, ResolvedTSConfig } from "../types";
 import PathResolver from "../services/PathResolver";
-import JSON5 from "json5";
+import { WorkspaceCache } from "../services/WorkspaceCache";
+import { parseExports, parseImports } from "./importParser";
+import { loadNearestConfig } from "./tsconfig";
+import { resolveFilePath, tryExtensions } from "./fsUtils";
+import { ResolutionOptions } from "./config";
+import { isExcluded } from "./glob";
+import {
+  findWorkspacePackages,
+  resolveNodeModule,
+  resolvePackageEntry,
+  resolveSubpathImport,
+  splitPackageSpecifier,
+} from "./packageResolution";
 
-async function loadTSConfig(workspaceRoot: string): Promise<TSConfig> {
-  try {
-    const tsconfigPath = path.join(workspaceRoot, "tsconfig.json");
-    const tsconfigContent = await fs.readFile(tsconfigPath, "utf-8");
-    return JSON5.parse(tsconfigContent);
-  } catch (error) {
-    console.error("Failed to load tsconfig.json:", error);
-    return {};
-  }
+interface ResolutionContext {
+  workspaceRoot: string;
+  options: ResolutionOptions;
+  cache: WorkspaceCache;
+  // Modules read while tracing re-exports, which the result depends on
+  dependencies: Set<string>;
 }
 
-function matchesAtStart(input: string, pattern: string): boolean {
-  const regex = new RegExp("^" + pattern);
-  return regex.test(input);
+interface LocatedSymbol {
+  path: string;
+  // Exported name in the declaring module, or "*" for the module namespace
+  name: string;
+}
+
+// Nearest config per directory
+function configFor(
+  filePath: string,
+  context: ResolutionContext
+): Promise<ResolvedTSConfig> {
+  return context.cache.memo(`tsconfig:${path.dirname(filePath)}`, () =>
+    loadNearestConfig(filePath, context.workspaceRoot)
+  );
 }
 
 async function resolveAliasPath(
   importPath: string,
-  workspaceRoot: string,
-  tsconfig: TSConfig
+  currentFilePath: string,
+  context: ResolutionContext
+): Promise<string | null> {
+  const tsconfig = await configFor(currentFilePath, context);
+  const resolver = new PathResolver(tsconfig.paths);
+  const { resolved, matched } = resolver.resolvePath(importPath);
+
+  const candidates: string[] = [];
+  if (matched) {
+    // Every target is tried in order, like the compiler does
+    candidates.push(
+      ...resolved.map((target) => path.resolve(tsconfig.pathsBasePath, target))
+    );
+  }
+  if (tsconfig.baseUrl) {
+    candidates.push(path.resolve(tsconfig.baseUrl, importPath));
+  }
+
+  return resolveCandidates(candidates, context);
+}
+
+function resolveFallbackPath(
+  importPath: string,
+  context: ResolutionContext
+): Promise<string | null> {
+  return resolveCandidates(
+    context.options.baseDirectories.map((baseDir) =>
+      path.join(context.workspaceRoot, baseDir, importPath)
+    ),
+    context
+  );
+}
+
+async function resolveCandidates(
+  candidates: string[],
+  context: ResolutionContext
+): Promise<string | null> {
+  const { extensions, indexFiles } = context.options;
+  const possiblePaths = candidates.flatMap((candidate) => [
+    candidate,
+    ...indexFiles.map((name) => path.join(candidate, name)),
+  ]);
+
+  // Probed together, but the first candidate in order still wins
+  const results = await Promise.all(
+    possiblePaths.map((possiblePath) => tryExtensions(possiblePath, extensions))
+  );
+  return results.find((result) => result !== null) ?? null;
+}
+
+async function resolveModulePath(
+  source: string,
+  currentFilePath: string,
+  context: ResolutionContext
+): Promise<string | null> {
+  if (source.startsWith(".")) {
+    const absolutePath = path.resolve(path.dirname(currentFilePath), source);
+    return resolveFilePath(absolutePath, context.options);
+  }
+  if (source.startsWith("#")) {
+    return resolveSubpathImport(source, currentFilePath, context.options);
+  }
+
+  return (
+    (await resolveAliasPath(source, currentFilePath, context)) ??
+    (await resolveWorkspacePackage(source, context)) ??
+    (context.options.includeNodeModules
+      ? await resolveNodeModule(
+          source,
+          path.dirname(currentFilePath),
+          context.options
+        )
+      : null) ??
+    (await resolveFallbackPath(source, context))
+  );
+}
+
+async function resolveWorkspacePackage(
+  source: string,
+  context: ResolutionContext
 ): Promise<string | null> {
-  const paths = tsconfig.compilerOptions?.paths || {};
+  const { packageName, subpath } = splitPackageSpecifier(source);
+  const packages = context.cache.memo(`packages:${context.workspaceRoot}`, () =>
+    findWorkspacePackages(context.workspaceRoot)
+  );
+  const packageDirectory = (await packages).get(packageName);
+  return packageDirectory
+    ? resolvePackageEntry(packageDirectory, subpath, context.options)
+    : null;
+}
 
-  const resolver = new PathResolver(paths);
+function isInNodeModules(filePath: string): boolean {
+  return filePath.split(/[\\/]/).includes("node_modules");
+}
 
-  const possibleBaseDirs = ["", "src", "app"];
+async function locateSymbol(
+  name: string,
+  modulePath: string,
+  context: ResolutionContext,
+  seen: Set<string>
+): Promise<LocatedSymbol | null> {
+  const key = `${modulePath}:${name}`;
+  if (seen.has(key)) {
+    return null;
+  }
+  seen.add(key);
 
-  for (const baseDir of possibleBaseDirs) {
-    const { resolved } = resolver.resolvePath(importPath);
-    const possiblePaths = [
-      path.join(workspaceRoot, baseDir, resolved[0]),
-      path.join(workspaceRoot, baseDir, resolved[0], "page"),
-      path.join(workspaceRoot, baseDir, resolved[0], "index"),
-    ];
+  context.dependencies.add(modulePath);
+  const sourceCode = await context.cache.readSource(modulePath);
+  const { declared, reExports } = context.cache.derive(
+    modulePath,
+    "exports",
+    () => parseExports(sourceCode, modulePath)
+  );
+  if (declared.includes(name)) {
+    return { path: modulePath, name };
+  }
 
-    for (const basePath of possiblePaths) {
-      const tryExtensionResult = await tryExtensions(basePath);
-      if (tryExtensionResult) {
-        return tryExtensionResult;
+  for (const reExport of reExports) {
+    if (reExport.exported !== name) {
+      continue;
+    }
+
+    if (!reExport.source) {
+      // `import { a } from "./a"; export { a as b };`
+      const importInfo = context.cache
+        .derive(modulePath, "imports", () =>
+          parseImports(sourceCode, modulePath)
+        )
+        .find((info) =>
+          info.imports.some((i) => (i.alias ?? i.name) === reExport.local)
+        );
+      if (!importInfo) {
+        return { path: modulePath, name: reExport.local };
       }
+      const declaration = importInfo.imports.find(
+        (i) => (i.alias ?? i.name) === reExport.local
+      )!;
+      const importedPath = await resolveModulePath(
+        importInfo.source,
+        modulePath,
+        context
+      );
+      if (!importedPath) {
+        return null;
+      }
+      if (declaration.isNamespace) {
+        return { path: importedPath, name: "*" };
+      }
+      return locateSymbol(
+        declaration.isDefault ? "default" : declaration.name,
+        importedPath,
+        context,
+        seen
+      );
+    }
+
+    const sourcePath = await resolveModulePath(
+      reExport.source,
+      modulePath,
+      context
+    );
+    if (!sourcePath) {
+      return null;
+    }
+    if (reExport.local === "*") {
+      return { path: sourcePath, name: "*" };
+    }
+    return locateSymbol(reExport.local, sourcePath, context, seen);
+  }
+
+  // `export *` never forwards the default export
+  if (name === "default") {
+    return null;
+  }
+
+  for (const reExport of reExports) {
+    if (reExport.exported !== "*" || !reExport.source) {
+      continue;
+    }
+    const sourcePath = await resolveModulePath(
+      reExport.source,
+      modulePath,
+      context
+    );
+    const located =
+      sourcePath && (await locateSymbol(name, sourcePath, context, seen));
+    if (located) {
+      return located;
     }
   }
 
   return null;
 }
 
-async function tryExtensions(basePath: string): Promise<string | null> {
-  const extensions = [".ts", ".tsx", ".js", ".jsx"];
-  for (const ext of extensions) {
-    const fullPath = basePath + ext;
+async function traceNamespaceMembers(
+  importInfo: ImportInfo,
+  declaration: ImportDeclaration,
+  context: ResolutionContext,
+  addImport: (resolvedPath: string, declaration: ImportDeclaration) => void
+): Promise<void> {
+  const untraced: string[] = [];
+
+  for (const member of declaration.members ?? []) {
+    let located: LocatedSymbol | null = null;
     try {
-      await fs.access(fullPath);
-      console.log("Found matching file:", fullPath);
-      return fullPath;
-    } catch {
-      continue;
+      located = await locateSymbol(
+        member,
+        importInfo.resolvedPath,
+        context,
+        new Set()
+      );
+    } catch (error) {
+      console.error(
+        `Failed to trace re-exports of ${importInfo.source}`,
+        error
+      );
+    }
+
+    if (!located) {
+      untraced.push(member);
+    } else if (located.name === "*") {
+      addImport(located.path, {
+        name: declaration.name,
+        isNamespace: true,
+        kind: declaration.kind,
+      });
+    } else {
+      addImport(located.path, {
+        name: declaration.name,
+        isNamespace: true,
+        members: [located.name],
+        kind: declaration.kind,
+      });
     }
   }
-  return null;
+
+  if (!declaration.members || untraced.length > 0) {
+    addImport(importInfo.resolvedPath, {
+      ...declaration,
+      members: declaration.members && untraced,
+    });
+  }
 }
 
-export async function resolveImportPaths(
-  imports: ImportInfo[],
-  currentFilePath: string
+// Splits an import of a barrel file into one import per module that actually
+// declares the imported symbols
+async function traceReExports(
+  importInfo: ImportInfo,
+  context: ResolutionContext
 ): Promise<ImportInfo[]> {
-  console.log("\nResolving import paths for file:", currentFilePath);
-
-  const workspaceRoot = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
-  if (!workspaceRoot) {
-    throw new Error("No workspace root found");
+  if (importInfo.imports.length === 0) {
+    return [importInfo];
   }
 
-  const tsconfig = await loadTSConfig(workspaceRoot);
+  const tracedImports = new Map<string, ImportInfo>();
+  const addImport = (resolvedPath: string, declaration: ImportDeclaration) => {
+    let traced = tracedImports.get(resolvedPath);
+    if (!traced) {
+      traced = { ...importInfo, imports: [], resolvedPath };
+      tracedImports.set(resolvedPath, traced);
+    }
+    traced.imports.push(declaration);
+  };
 
-  const resolvedImports: ImportInfo[] = [];
+  for (const declaration of importInfo.imports) {
+    if (declaration.isNamespace) {
+      await traceNamespaceMembers(importInfo, declaration, context, addImport);
+      continue;
+    }
 
-  for (const importInfo of imports) {
-    console.log("\nProcessing import:", importInfo.source);
+    let located: LocatedSymbol | null = null;
     try {
-      let resolvedPath: string | null = null;
+      located = await locateSymbol(
+        declaration.isDefault ? "default" : declaration.name,
+        importInfo.resolvedPath,
+        context,
+        new Set()
+      );
+    } catch (error) {
+      console.error(
+        `Failed to trace re-exports of ${importInfo.source}`,
+        error
+      );
+    }
 
-      if (importInfo.source.startsWith(".")) {
-        const absolutePath = path.resolve(
-          path.dirname(currentFilePath),
-          importInfo.source
-        );
-        resolvedPath = await tryExtensions(absolutePath);
-      } else {
-        resolvedPath = await resolveAliasPath(
-          importInfo.source,
-          workspaceRoot,
-          tsconfig
-        );
-      }
+    if (!located) {
+      addImport(importInfo.resolvedPath, declaration);
+      continue;
+    }
 
-      if (resolvedPath) {
-        console.log("Successfully resolved path:", resolvedPath);
-        importInfo.resolvedPath = resolvedPath;
-        resolvedImports.push(importInfo);
-      } else {
-        console.log("Could not resolve path for:", importInfo.source);
-      }
-    } catch (error) {
-      console.error(`Failed to resolve import: ${importInfo.source}`, error);
+    if (located.path !== importInfo.resolvedPath) {
+      context.cache.host.trace.appendLine(
+        `Traced ${declaration.name} through ${importInfo.resolvedPath} to ${located.path}`
+      );
+    }
+
+    const localName = declaration.alias ?? declaration.name;
+    if (located.name === "*") {
+      addImport(located.path, {
+        name: localName,
+        isNamespace: true,
+        kind: declaration.kind,
+      });
+    } else if (located.name === "default") {
+      addImport(located.path, {
+        name: localName,
+        isDefault: true,
+        kind: declaration.kind,
+      });
+    } else {
+      addImport(located.path, {
+        name: located.name,
+        alias: localName,
+        kind: declaration.kind,
+      });
     }
   }
 
-  return resolvedImports;
+  return Array.from(tracedImports.values());
+}
+
+// Drops type-only and dynamic imports when they are not to be followed
+function followedImports(
+  imports: ImportInfo[],
+  { followTypeOnly, followDynamic }: ResolutionOptions
+): ImportInfo[] {
+  return imports.flatMap((importInfo) => {
+    if (importInfo.kind === "dynamic" && !followDynamic) {
+      return [];
+    }
+    if (followTypeOnly || importInfo.imports.length === 0) {
+      return [importInfo];
+    }
+    const values = importInfo.imports.filter((i) => i.kind !== "type");
+    return values.length > 0 ? [{ ...importInfo, imports: values }] : [];
+  });
+}
+
+async function resolveImport(
+  importInfo: ImportInfo,
+  currentFilePath: string,
+  context: ResolutionContext
+): Promise<ImportInfo[]> {
+  const { trace } = context.cache.host;
+  trace.appendLine(`Processing import: ${importInfo.source}`);
+  try {
+    const resolvedPath = await resolveModulePath(
+      importInfo.source,
+      currentFilePath,
+      context
+    );
+
+    if (
+      resolvedPath &&
+      isInNodeModules(resolvedPath) &&
+      !context.options.includeNodeModules
+    ) {
+      trace.appendLine(`Skipping third-party module: ${resolvedPath}`);
+    } else if (
+      resolvedPath &&
+      isExcluded(resolvedPath, context.workspaceRoot, context.options.exclude)
+    ) {
+      trace.appendLine(`Skipping excluded file: ${resolvedPath}`);
+    } else if (resolvedPath) {
+      trace.appendLine(`Successfully resolved path: ${resolvedPath}`);
+      return traceReExports({ ...importInfo, resolvedPath }, context);
+    } else {
+      trace.appendLine(`Could not resolve path for: ${importInfo.source}`);
+    }
+  } catch (error) {
+    console.error(`Failed to resolve import: ${importInfo.source}`, error);
+  }
+  return [];
+}
+
+export async function resolveImportPaths(
+  imports: ImportInfo[],
+  currentFilePath: string,
+  cache: WorkspaceCache
+): Promise<ImportInfo[]> {
+  const workspaceRoot = cache.host.workspaceRoot(currentFilePath);
+  if (!workspaceRoot) {
+    throw new Error("No workspace root found");
+  }
+
+  const options = cache.host.getConfig(currentFilePath).resolution;
+  const followed = followedImports(imports, options);
+  return cache.memo(
+    `imports:${currentFilePath}:${JSON.stringify(followed)}`,
+    async (dependencies) => {
+      cache.host.trace.appendLine(
+        `Resolving import paths for file: ${currentFilePath}`
+      );
+      const context: ResolutionContext = {
+        workspaceRoot,
+        options,
+        cache,
+        dependencies,
+      };
+
+      // Resolved concurrently, kept in source order
+      const resolved = await Promise.all(
+        followed.map((importInfo) =>
+          resolveImport(importInfo, currentFilePath, context)
+        )
+      );
+      return resolved.flat();
+    }
+  );
 }
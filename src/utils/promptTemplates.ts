@@ -0,0 +1,72 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+
+export interface PromptTemplate {
+  name: string;
+  description?: string;
+  // Text with {{bundle}}, {{activeFile}}, {{selection}}, {{symbol}} and
+  // {{diagnostics}} placeholders
+  template: string;
+}
+
+export interface PromptValues {
+  bundle: string;
+  // Workspace-relative path of the active editor's file
+  activeFile: string;
+  selection: string;
+  // Declaration under the cursor
+  symbol: string;
+  // The active file's problems, one per line
+  diagnostics: string;
+}
+
+// Checked in with the workspace so a team shares its prompts
+export const PROMPT_DIRECTORY = path.join(".pbcode", "prompts");
+
+const PROMPT_FILE = /\.(md|txt)$/;
+
+// Settings may hold anything, so entries without a name or text are dropped
+export function validPromptTemplates(templates: unknown): PromptTemplate[] {
+  return Array.isArray(templates)
+    ? templates.filter(
+        (template): template is PromptTemplate =>
+          typeof template?.name === "string" &&
+          typeof template?.template === "string"
+      )
+    : [];
+}
+
+// One template per .md or .txt file, named after the file
+export async function loadWorkspacePrompts(
+  workspaceRoot: string
+): Promise<PromptTemplate[]> {
+  const directory = path.join(workspaceRoot, PROMPT_DIRECTORY);
+  let entries: string[];
+  try {
+    entries = await fs.readdir(directory);
+  } catch {
+    return [];
+  }
+
+  return Promise.all(
+    entries
+      .filter((entry) => PROMPT_FILE.test(entry))
+      .sort()
+      .map(async (entry) => ({
+        name: entry.replace(PROMPT_FILE, ""),
+        description: path.join(PROMPT_DIRECTORY, entry),
+        template: await fs.readFile(path.join(directory, entry), "utf-8"),
+      }))
+  );
+}
+
+// A template without {{bundle}} gets the bundle after it. Unknown
+// placeholders are left as written.
+export function renderPrompt(template: string, values: PromptValues): string {
+  const text = /{{\s*bundle\s*}}/.test(template)
+    ? template
+    : `${template.trimEnd()}\n\n{{bundle}}`;
+  return text.replace(/{{\s*(\w+)\s*}}/g, (match, key: string) =>
+    Object.hasOwn(values, key) ? values[key as keyof PromptValues] : match
+  );
+}
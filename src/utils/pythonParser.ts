@@ -0,0 +1,412 @@
+import {
+  DeclarationKind,
+  ExtractedContent,
+  ImportDeclaration,
+  ImportInfo,
+} from "../types";
+
+interface LogicalLine {
+  // Zero-based, inclusive
+  startLine: number;
+  endLine: number;
+  indent: number;
+  // Comments and string contents blanked out, continuation lines joined
+  text: string;
+}
+
+const KEYWORDS = new Set([
+  "False",
+  "None",
+  "True",
+  "and",
+  "as",
+  "assert",
+  "async",
+  "await",
+  "break",
+  "class",
+  "continue",
+  "def",
+  "del",
+  "elif",
+  "else",
+  "except",
+  "finally",
+  "for",
+  "from",
+  "global",
+  "if",
+  "import",
+  "in",
+  "is",
+  "lambda",
+  "nonlocal",
+  "not",
+  "or",
+  "pass",
+  "raise",
+  "return",
+  "try",
+  "while",
+  "with",
+  "yield",
+  "self",
+  "cls",
+]);
+
+// Replaces comments and the contents of string literals with spaces, keeping
+// offsets and line breaks, so the rest can be scanned with plain patterns
+export function sanitizePython(source: string): string {
+  const chars = source.split("");
+  let i = 0;
+
+  while (i < chars.length) {
+    const char = chars[i];
+    if (char === "#") {
+      while (i < chars.length && chars[i] !== "\n") {
+        chars[i++] = " ";
+      }
+      continue;
+    }
+    if (char !== '"' && char !== "'") {
+      i++;
+      continue;
+    }
+
+    const triple = chars[i + 1] === char && chars[i + 2] === char;
+    const quoteLength = triple ? 3 : 1;
+    i += quoteLength;
+    while (i < chars.length) {
+      if (chars[i] === "\\") {
+        chars[i] = " ";
+        if (chars[i + 1] !== "\n") {
+          chars[i + 1] = " ";
+        }
+        i += 2;
+        continue;
+      }
+      if (
+        chars[i] === char &&
+        (!triple || (chars[i + 1] === char && chars[i + 2] === char))
+      ) {
+        i += quoteLength;
+        break;
+      }
+      // An unterminated single-quoted string ends at the line break
+      if (chars[i] === "\n" && !triple) {
+        break;
+      }
+      if (chars[i] !== "\n") {
+        chars[i] = " ";
+      }
+      i++;
+    }
+  }
+
+  return chars.join("");
+}
+
+function toLogicalLines(sanitized: string): LogicalLine[] {
+  const lines = sanitized.split("\n");
+  const logical: LogicalLine[] = [];
+  let current: LogicalLine | null = null;
+  let depth = 0;
+
+  lines.forEach((line, index) => {
+    if (!current) {
+      if (!line.trim()) {
+        return;
+      }
+      current = {
+        startLine: index,
+        endLine: index,
+        indent: line.length - line.trimStart().length,
+        text: line.trim(),
+      };
+    } else {
+      current.endLine = index;
+      current.text += " " + line.trim();
+    }
+
+    for (const char of line) {
+      if ("([{".includes(char)) {
+        depth++;
+      } else if (")]}".includes(char)) {
+        depth = Math.max(0, depth - 1);
+      }
+    }
+
+    if (current.text.endsWith("\\")) {
+      current.text = current.text.slice(0, -1).trimEnd();
+    } else if (depth === 0) {
+      logical.push(current);
+      current = null;
+    }
+  });
+
+  if (current) {
+    logical.push(current);
+  }
+  return logical;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Attributes read off a module binding (`mod.attr`). Undefined when the
+// binding is also used on its own, so any attribute may be reached.
+function accessedMembers(
+  sanitized: string,
+  binding: string,
+  importRanges: Array<[number, number]>
+): string[] | undefined {
+  const members = new Set<string>();
+  const pattern = new RegExp(
+    `(?<![\\w.])${escapeRegExp(
+      binding
+    )}(?![\\w])(?:\\s*\\.\\s*([A-Za-z_]\\w*))?`,
+    "g"
+  );
+
+  for (const match of sanitized.matchAll(pattern)) {
+    const offset = match.index!;
+    if (importRanges.some(([start, end]) => offset >= start && offset < end)) {
+      continue;
+    }
+    if (!match[1]) {
+      return undefined;
+    }
+    members.add(match[1]);
+  }
+  return Array.from(members);
+}
+
+// `import a.b as c` and `from ..pkg import x, y as z`. Relative modules keep
+// their leading dots, e.g. `..pkg`.
+export function parsePythonImports(source: string): ImportInfo[] {
+  const sanitized = sanitizePython(source);
+  const lineOffsets = [0];
+  for (let i = 0; i < sanitized.length; i++) {
+    if (sanitized[i] === "\n") {
+      lineOffsets.push(i + 1);
+    }
+  }
+
+  // The name each declaration is read through, parallel to `imports`
+  const statements: Array<{
+    importInfo: ImportInfo;
+    bindings: Array<string | undefined>;
+  }> = [];
+  const importRanges: Array<[number, number]> = [];
+
+  for (const line of toLogicalLines(sanitized)) {
+    const plain = line.text.match(/^import\s+(.+)$/);
+    const from = line.text.match(/^from\s+(\.*[\w.]*)\s+import\s+(.+)$/);
+    if (!plain && !from) {
+      continue;
+    }
+    importRanges.push([
+      lineOffsets[line.startLine],
+      lineOffsets[line.endLine + 1] ?? sanitized.length,
+    ]);
+
+    if (plain) {
+      for (const part of plain[1].split(",")) {
+        const [, module, alias] =
+          part.trim().match(/^([\w.]+)(?:\s+as\s+(\w+))?$/) ?? [];
+        if (!module) {
+          continue;
+        }
+        // `import a.b` binds `a` but is read as `a.b.attr`
+        statements.push({
+          importInfo: {
+            source: module,
+            imports: [
+              {
+                name: module,
+                alias: alias ?? module.split(".")[0],
+                isNamespace: true,
+              },
+            ],
+            resolvedPath: "",
+            kind: "static",
+          },
+          bindings: [alias ?? module],
+        });
+      }
+      continue;
+    }
+
+    const [, module, names] = from!;
+    const imports: ImportDeclaration[] = [];
+    for (const part of names.replace(/[()]/g, "").split(",")) {
+      const name = part.trim();
+      if (name === "*") {
+        imports.push({ name: "*", isNamespace: true });
+        continue;
+      }
+      const [, imported, alias] = name.match(/^(\w+)(?:\s+as\s+(\w+))?$/) ?? [];
+      if (imported) {
+        imports.push({ name: imported, alias: alias ?? imported });
+      }
+    }
+    statements.push({
+      importInfo: {
+        source: module,
+        imports,
+        resolvedPath: "",
+        kind: "static",
+      },
+      bindings: imports.map((declaration) => declaration.alias),
+    });
+  }
+
+  for (const { importInfo, bindings } of statements) {
+    // Recorded for `from` bindings too, which may turn out to be submodules
+    importInfo.imports.forEach((declaration, index) => {
+      const binding = bindings[index];
+      if (binding) {
+        declaration.members = accessedMembers(sanitized, binding, importRanges);
+      }
+    });
+  }
+
+  return statements.map(({ importInfo }) => importInfo);
+}
+
+export function pythonReferences(sanitizedText: string): string[] {
+  const references = new Set<string>();
+  for (const match of sanitizedText.matchAll(/(?<![\w.])[A-Za-z_]\w*/g)) {
+    if (!KEYWORDS.has(match[0])) {
+      references.add(match[0]);
+    }
+  }
+  return Array.from(references);
+}
+
+function classify(
+  text: string
+): { name: string; kind: DeclarationKind } | null {
+  const patterns: Array<[RegExp, DeclarationKind]> = [
+    [/^(?:async\s+)?def\s+(\w+)/, "function"],
+    [/^class\s+(\w+)/, "class"],
+    [/^type\s+(\w+)\s*(?:\[[^\]]*\])?\s*=/, "type"],
+    [/^(\w+)\s*(?::[^=]+)?=(?!=)/, "variable"],
+  ];
+  for (const [pattern, kind] of patterns) {
+    const match = text.match(pattern);
+    if (match) {
+      return { name: match[1], kind };
+    }
+  }
+  return null;
+}
+
+// Top-level functions, classes, type aliases and assignments, with their
+// decorators
+export function extractPythonDeclarations(source: string): ExtractedContent[] {
+  const lines = source.split("\n");
+  const sanitizedLines = sanitizePython(source).split("\n");
+  const logical = toLogicalLines(sanitizedLines.join("\n"));
+  const declarations: ExtractedContent[] = [];
+
+  for (let i = 0; i < logical.length; i++) {
+    const start = logical[i];
+    if (start.indent > 0) {
+      continue;
+    }
+
+    let header = i;
+    while (
+      logical[header]?.text.startsWith("@") &&
+      logical[header + 1]?.indent === 0
+    ) {
+      header++;
+    }
+    let end = header;
+    while (logical[end + 1] && logical[end + 1].indent > 0) {
+      end++;
+    }
+
+    const declaration = classify(logical[header].text);
+    const startLine = start.startLine;
+    const endLine = logical[end].endLine;
+    i = end;
+    if (!declaration) {
+      continue;
+    }
+
+    const sanitizedText = sanitizedLines
+      .slice(startLine, endLine + 1)
+      .join("\n");
+    declarations.push({
+      name: declaration.name,
+      kind: declaration.kind,
+      content: `\n${lines
+        .slice(startLine, endLine + 1)
+        .join("\n")
+        .trim()}\n`,
+      references: pythonReferences(sanitizedText).filter(
+        (reference) => reference !== declaration.name
+      ),
+      location: { start: startLine, end: endLine },
+    });
+  }
+
+  return declarations;
+}
+
+// Replaces the body of every function and method with `...`, keeping
+// signatures, decorators, docstrings and class attributes
+export function outlinePython(source: string): string {
+  const lines = source.split("\n");
+  const sanitizedLines = sanitizePython(source).split("\n");
+  const logical = toLogicalLines(sanitizedLines.join("\n"));
+  const bodies: Array<[number, number]> = [];
+
+  for (let i = 0; i < logical.length; i++) {
+    const header = logical[i];
+    let end = i;
+    while (logical[end + 1] && logical[end + 1].indent > header.indent) {
+      end++;
+    }
+    // One-line functions such as `def f(): ...` have no body block
+    if (!/^(?:async\s+)?def\b/.test(header.text) || end === i) {
+      continue;
+    }
+
+    let bodyStart = logical[i + 1].startLine;
+    const docstring = logical[i + 1].text.match(/^[rRuU]?("""|''')/);
+    if (docstring) {
+      // The contents of a docstring are blanked, its closing quotes are not
+      const opening = sanitizedLines[bodyStart].indexOf(docstring[1]);
+      let close = bodyStart;
+      while (
+        close < sanitizedLines.length &&
+        !sanitizedLines[close].includes(
+          docstring[1],
+          close === bodyStart ? opening + 3 : 0
+        )
+      ) {
+        close++;
+      }
+      bodyStart = close + 1;
+    }
+
+    const first = logical
+      .slice(i + 1, end + 1)
+      .find((line) => line.startLine >= bodyStart);
+    if (first) {
+      bodies.push([first.startLine, logical[end].endLine]);
+    }
+    i = end;
+  }
+
+  // From the bottom up, so earlier bodies keep their line numbers
+  for (const [start, end] of bodies.reverse()) {
+    const indent = lines[start].match(/^\s*/)![0];
+    lines.splice(start, end - start + 1, `${indent}...`);
+  }
+  return lines.join("\n");
+}
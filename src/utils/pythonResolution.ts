@@ -0,0 +1,250 @@
+import * as path from "path";
+import { ImportDeclaration, ImportInfo } from "../types";
+import { WorkspaceCache } from "../services/WorkspaceCache";
+import { fileExists } from "./fsUtils";
+import { ResolutionOptions } from "./config";
+import { isExcluded } from "./glob";
+import { extractPythonDeclarations, parsePythonImports } from "./pythonParser";
+
+const MAX_REEXPORT_DEPTH = 5;
+
+interface ResolutionContext {
+  workspaceRoot: string;
+  options: ResolutionOptions;
+  cache: WorkspaceCache;
+  // Modules read while following re-exports, which the result depends on
+  dependencies: Set<string>;
+}
+
+interface ResolvedDeclaration {
+  importInfo: ImportInfo;
+  resolvedPath: string;
+  declaration: ImportDeclaration;
+}
+
+function joinModule(source: string, name: string): string {
+  return source.endsWith(".") ? source + name : `${source}.${name}`;
+}
+
+async function resolveModuleFile(
+  baseDirectory: string,
+  segments: string[]
+): Promise<string | null> {
+  const target = path.join(baseDirectory, ...segments);
+  const candidates =
+    segments.length > 0
+      ? [`${target}.py`, path.join(target, "__init__.py")]
+      : [path.join(target, "__init__.py")];
+  for (const candidate of candidates) {
+    if (await fileExists(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+// Absolute imports are looked up from the directory containing the file's
+// top-level package, then the configured base directories
+async function searchRoots(
+  currentFilePath: string,
+  context: ResolutionContext
+): Promise<string[]> {
+  let directory = path.dirname(currentFilePath);
+  while (
+    (await fileExists(path.join(directory, "__init__.py"))) &&
+    path.dirname(directory) !== directory
+  ) {
+    directory = path.dirname(directory);
+  }
+  return Array.from(
+    new Set([
+      directory,
+      ...context.options.baseDirectories.map((baseDir) =>
+        path.join(context.workspaceRoot, baseDir)
+      ),
+    ])
+  );
+}
+
+async function resolvePythonModule(
+  source: string,
+  currentFilePath: string,
+  context: ResolutionContext
+): Promise<string | null> {
+  const dots = source.match(/^\.*/)![0].length;
+  const segments = source.slice(dots).split(".").filter(Boolean);
+
+  if (dots > 0) {
+    // One dot is the current package, each further dot its parent
+    let base = path.dirname(currentFilePath);
+    for (let i = 1; i < dots; i++) {
+      base = path.dirname(base);
+    }
+    return resolveModuleFile(base, segments);
+  }
+
+  for (const root of await searchRoots(currentFilePath, context)) {
+    const resolved = await resolveModuleFile(root, segments);
+    if (resolved) {
+      return resolved;
+    }
+  }
+  return null;
+}
+
+// Follows `from .x import name` in `__init__.py` and other modules to the file
+// that actually defines the name
+async function locatePythonSymbol(
+  name: string,
+  modulePath: string,
+  context: ResolutionContext,
+  depth: number
+): Promise<{ path: string; name: string } | null> {
+  if (depth > MAX_REEXPORT_DEPTH) {
+    return null;
+  }
+
+  context.dependencies.add(modulePath);
+  const source = await context.cache.readSource(modulePath);
+  const declarations = context.cache.derive(modulePath, "declarations", () =>
+    extractPythonDeclarations(source)
+  );
+  if (declarations.some((d) => d.name === name)) {
+    return { path: modulePath, name };
+  }
+
+  const imports = context.cache.derive(modulePath, "imports", () =>
+    parsePythonImports(source)
+  );
+  for (const importInfo of imports) {
+    const declaration = importInfo.imports.find(
+      (d) => d.name === "*" || (!d.isNamespace && d.alias === name)
+    );
+    if (!declaration) {
+      continue;
+    }
+    const target = await resolvePythonModule(
+      importInfo.source,
+      modulePath,
+      context
+    );
+    if (declaration.name === "*") {
+      // Names starting with an underscore are not exported by `import *`
+      const located =
+        target && !name.startsWith("_")
+          ? await locatePythonSymbol(name, target, context, depth + 1)
+          : null;
+      if (located) {
+        return located;
+      }
+      continue;
+    }
+    return target
+      ? locatePythonSymbol(declaration.name, target, context, depth + 1)
+      : null;
+  }
+  return null;
+}
+
+async function resolvePythonImport(
+  importInfo: ImportInfo,
+  currentFilePath: string,
+  context: ResolutionContext
+): Promise<ResolvedDeclaration[]> {
+  const resolved: ResolvedDeclaration[] = [];
+  try {
+    const resolvedPath = await resolvePythonModule(
+      importInfo.source,
+      currentFilePath,
+      context
+    );
+
+    for (const declaration of importInfo.imports) {
+      if (declaration.isNamespace) {
+        if (resolvedPath) {
+          resolved.push({ importInfo, resolvedPath, declaration });
+        }
+        continue;
+      }
+
+      // `from pkg import sub` imports a submodule when one exists
+      const submodule = joinModule(importInfo.source, declaration.name);
+      const submodulePath = await resolvePythonModule(
+        submodule,
+        currentFilePath,
+        context
+      );
+      if (submodulePath) {
+        resolved.push({
+          importInfo: { ...importInfo, source: submodule },
+          resolvedPath: submodulePath,
+          declaration: { ...declaration, name: submodule, isNamespace: true },
+        });
+        continue;
+      }
+
+      if (!resolvedPath) {
+        continue;
+      }
+      const located = await locatePythonSymbol(
+        declaration.name,
+        resolvedPath,
+        context,
+        0
+      );
+      resolved.push({
+        importInfo,
+        resolvedPath: located?.path ?? resolvedPath,
+        declaration: located
+          ? { ...declaration, name: located.name }
+          : declaration,
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to resolve import: ${importInfo.source}`, error);
+  }
+  return resolved;
+}
+
+export async function resolvePythonImports(
+  imports: ImportInfo[],
+  currentFilePath: string,
+  cache: WorkspaceCache
+): Promise<ImportInfo[]> {
+  const workspaceRoot =
+    cache.host.workspaceRoot(currentFilePath) ?? path.dirname(currentFilePath);
+
+  const options = cache.host.getConfig(currentFilePath).resolution;
+  return cache.memo(
+    `python-imports:${currentFilePath}:${JSON.stringify(imports)}`,
+    async (dependencies) => {
+      const context: ResolutionContext = {
+        workspaceRoot,
+        options,
+        cache,
+        dependencies,
+      };
+      const resolved = await Promise.all(
+        imports.map((importInfo) =>
+          resolvePythonImport(importInfo, currentFilePath, context)
+        )
+      );
+
+      // One import per module and statement, in source order
+      const resolvedImports = new Map<string, ImportInfo>();
+      for (const { importInfo, resolvedPath, declaration } of resolved.flat()) {
+        if (isExcluded(resolvedPath, workspaceRoot, options.exclude)) {
+          continue;
+        }
+        const key = `${resolvedPath}\0${importInfo.source}`;
+        let grouped = resolvedImports.get(key);
+        if (!grouped) {
+          grouped = { ...importInfo, imports: [], resolvedPath };
+          resolvedImports.set(key, grouped);
+        }
+        grouped.imports.push(declaration);
+      }
+      return Array.from(resolvedImports.values());
+    }
+  );
+}
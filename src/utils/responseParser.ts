@@ -0,0 +1,251 @@
+import * as path from "path";
+import { LanguageProvider } from "../types";
+
+// A file's new content as written in an AI response, whole or as some of its
+// declarations
+export interface ResponseBlock {
+  // As written in the response, relative or absolute
+  path: string;
+  content: string;
+}
+
+// The blocks PBCode copies out, with any attributes such as `lines`
+const FILE_BLOCK =
+  /<file\s+path="([^"]+)"[^>]*>\r?\n?([\s\S]*?)\r?\n?<\/file>/g;
+const FENCE = /^\s*(`{3,}|~{3,})\s*(.*)$/;
+// Info string keys some tools put the path under, e.g. ```ts title="a.ts"
+const PATH_ATTRIBUTE = /\b(?:title|path|file|filename)=["']?([^"'\s]+)/;
+// A name with an extension or a directory; languages such as "c++" are not
+const PATH_LIKE = /\.[A-Za-z]\w*$|[/\\]/;
+
+// Paths are escaped as XML attributes when PBCode copies them
+function unescapeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, "<")
+    .replace(/&amp;/g, "&");
+}
+
+function looksLikePath(text: string): boolean {
+  return !/\s/.test(text) && PATH_LIKE.test(text);
+}
+
+// e.g. "typescript src/a.ts", "ts:src/a.ts" or "ts title=src/a.ts"
+function pathFromInfo(info: string): string | undefined {
+  const attribute = info.match(PATH_ATTRIBUTE);
+  if (attribute) {
+    return attribute[1];
+  }
+  const [, ...rest] = info.split(/[\s:]+/).filter(Boolean);
+  return rest.find(looksLikePath) ?? (looksLikePath(info) ? info : undefined);
+}
+
+// A label line above a fence, such as "`src/a.ts`" as PBCode's markdown
+// format writes it, "### src/a.ts" or "**File: src/a.ts**"
+function pathFromLabel(line: string): string | undefined {
+  const label = line
+    .trim()
+    .replace(/\s*\(lines [^)]*\)$/, "")
+    .replace(/^#+\s*/, "")
+    .replace(/^[*_]+|[*_:]+$/g, "")
+    .replace(/^(?:file|path)\s*:\s*/i, "")
+    .replace(/^`([^`]+)`$/, "$1")
+    .trim();
+  return looksLikePath(label) ? label : undefined;
+}
+
+// The code of a block that is one fenced block, as some answers write inside
+// <file> tags
+function unfence(content: string): string {
+  const lines = content.trim().split("\n");
+  const open = lines[0].match(FENCE);
+  if (lines.length < 2 || !open || lines[lines.length - 1].trim() !== open[1]) {
+    return content;
+  }
+  return lines.slice(1, -1).join("\n");
+}
+
+// <file path="..."> blocks, then fenced code blocks labelled with a path.
+// Fences without a path, and diffs, are explanation rather than files.
+export function parseResponse(response: string): ResponseBlock[] {
+  const text = response.replace(/\r\n/g, "\n");
+  const blocks: ResponseBlock[] = [];
+
+  for (const match of text.matchAll(FILE_BLOCK)) {
+    blocks.push({
+      path: unescapeAttribute(match[1].trim()),
+      content: unfence(match[2]),
+    });
+  }
+
+  const lines = text.replace(FILE_BLOCK, "").split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(FENCE);
+    if (!open) {
+      continue;
+    }
+    const [, marker, info] = open;
+    const end = lines.findIndex(
+      (line, j) =>
+        j > i && line.trim().startsWith(marker) && /^[`~]+$/.test(line.trim())
+    );
+    const close = end === -1 ? lines.length : end;
+
+    const language = info.split(/[\s:]+/)[0];
+    const label = lines
+      .slice(0, i)
+      .reverse()
+      .find((line) => line.trim() !== "");
+    const filePath =
+      language === "diff"
+        ? undefined
+        : pathFromInfo(info.trim()) ?? (label && pathFromLabel(label));
+    if (filePath) {
+      blocks.push({
+        path: filePath,
+        content: lines.slice(i + 1, close).join("\n"),
+      });
+    }
+    i = close;
+  }
+  return blocks;
+}
+
+// The absolute path of a block's file, relative paths resolving against
+// `folder`. Undefined when it is outside every root.
+export function resolveResponsePath(
+  blockPath: string,
+  folder: string,
+  roots: string[]
+): string | undefined {
+  const filePath = path.resolve(folder, blockPath);
+  const inside = roots.some((root) => {
+    const relative = path.relative(root, filePath);
+    return relative.split(path.sep)[0] !== ".." && !path.isAbsolute(relative);
+  });
+  return inside ? filePath : undefined;
+}
+
+// The import statements above the first declaration, each as its lines, and
+// the line after the last of them. A statement continues over indented lines
+// and closing brackets, as in a multi-line `import { a, b } from "x"`.
+function leadingImports(
+  lines: string[],
+  firstDeclaration: number,
+  filePath: string,
+  provider: LanguageProvider
+): { statements: string[][]; end: number } {
+  const groups: Array<{ lines: string[]; end: number }> = [];
+  for (let i = 0; i < firstDeclaration; i++) {
+    const line = lines[i];
+    const continues = /^[\s)\]}]/.test(line);
+    if (!line.trim()) {
+      continue;
+    }
+    const last = groups[groups.length - 1];
+    if (continues && last?.end === i) {
+      last.lines.push(line);
+      last.end = i + 1;
+    } else {
+      groups.push({ lines: [line], end: i + 1 });
+    }
+  }
+
+  const imports = groups.filter(
+    (group) =>
+      provider.parseImports(group.lines.join("\n"), filePath).length > 0
+  );
+  return {
+    statements: imports.map((group) => group.lines),
+    end: imports[imports.length - 1]?.end ?? 0,
+  };
+}
+
+function sameStatement(a: string[], b: string[]): boolean {
+  const normalize = (lines: string[]) => lines.join(" ").replace(/\s+/g, " ");
+  return normalize(a) === normalize(b);
+}
+
+// Replaces the declarations a partial snippet shows, by their line ranges,
+// and appends the ones the file does not have yet. Imports the snippet adds
+// go after the file's own. Undefined when the snippet is the whole file: it
+// declares everything the file does, or nothing the file does.
+export function mergeSnippet(
+  current: string,
+  snippet: string,
+  filePath: string,
+  provider: LanguageProvider
+): { content: string; entities: string[] } | undefined {
+  const existing = provider.extractDeclarations(current, filePath);
+  const proposed = provider.extractDeclarations(snippet, filePath);
+  const proposedNames = new Set(proposed.map((d) => d.name));
+  if (
+    proposed.length === 0 ||
+    existing.every((d) => proposedNames.has(d.name)) ||
+    !existing.some((d) => proposedNames.has(d.name))
+  ) {
+    return undefined;
+  }
+
+  const lines = current.split("\n");
+  const snippetLines = snippet.split("\n");
+  const replacements = new Map<number, { end: number; lines: string[] }>();
+  const added: string[][] = [];
+  const addedStarts = new Set<number>();
+  for (const declaration of proposed) {
+    const { start, end } = declaration.location;
+    const code = snippetLines.slice(start, end + 1);
+    const target = existing.find((d) => d.name === declaration.name);
+    if (target) {
+      // Names declared together, as in `const a = 1, b = 2`, share a range
+      replacements.set(target.location.start, {
+        end: target.location.end,
+        lines: code,
+      });
+    } else if (!addedStarts.has(start)) {
+      addedStarts.add(start);
+      added.push(code);
+    }
+  }
+
+  const fileImports = leadingImports(
+    lines,
+    Math.min(...existing.map((d) => d.location.start)),
+    filePath,
+    provider
+  );
+  const newImports = leadingImports(
+    snippetLines,
+    Math.min(...proposed.map((d) => d.location.start)),
+    filePath,
+    provider
+  ).statements.filter(
+    (statement) =>
+      !fileImports.statements.some((known) => sameStatement(known, statement))
+  );
+
+  // From the bottom up, so earlier ranges keep their line numbers
+  for (const [start, { end, lines: code }] of Array.from(
+    replacements.entries()
+  ).sort(([a], [b]) => b - a)) {
+    lines.splice(start, end - start + 1, ...code);
+  }
+  if (newImports.length > 0) {
+    lines.splice(
+      fileImports.end,
+      0,
+      ...newImports.flat(),
+      ...(fileImports.statements.length === 0 ? [""] : [])
+    );
+  }
+  const trailingNewline = lines[lines.length - 1] === "" ? [""] : [];
+  const body = trailingNewline.length > 0 ? lines.slice(0, -1) : lines;
+  for (const code of added) {
+    body.push("", ...code);
+  }
+
+  return {
+    content: [...body, ...trailingNewline].join("\n"),
+    entities: proposed.map((d) => d.name),
+  };
+}
@@ -0,0 +1,34 @@
+export const DEFAULT_MODEL = "claude-3-5-sonnet";
+
+// Context window sizes of common target models, in tokens
+export const MODEL_TOKEN_BUDGETS: Record<string, number> = {
+  "claude-3-5-sonnet": 200000,
+  "claude-3-5-haiku": 200000,
+  "claude-3-opus": 200000,
+  "gpt-4o": 128000,
+  "gpt-4o-mini": 128000,
+  "gpt-4-turbo": 128000,
+  "gemini-1.5-pro": 2000000,
+  "gemini-1.5-flash": 1000000,
+};
+
+export interface TokenBudget {
+  model: string;
+  tokens: number;
+}
+
+export function resolveTokenBudget(
+  model: string,
+  customBudgets: Record<string, number>
+): TokenBudget {
+  const tokens = customBudgets[model] ?? MODEL_TOKEN_BUDGETS[model];
+  if (tokens === undefined) {
+    console.error(`No token budget known for model ${model}`);
+    return { model: DEFAULT_MODEL, tokens: MODEL_TOKEN_BUDGETS[DEFAULT_MODEL] };
+  }
+  return { model, tokens };
+}
+
+export function formatBudgetShare(tokens: number, budget: TokenBudget): string {
+  return `${Math.round((tokens / budget.tokens) * 100)}% of ${budget.model}`;
+}
@@ -0,0 +1,29 @@
+// Offline approximation of BPE tokenizers used by current chat models. Code
+// tokenizes denser than prose: identifiers split into sub-words, and most
+// punctuation is a token of its own.
+const TOKEN_PATTERN = /[A-Za-z]+|\d+|\s+|[^\sA-Za-z\d]/g;
+
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+
+  for (const [chunk] of text.matchAll(TOKEN_PATTERN)) {
+    const first = chunk.charCodeAt(0);
+    if (chunk.trim() === "") {
+      // A single space merges into the next token; newlines and
+      // indentation runs do not
+      tokens += chunk === " " ? 0 : Math.ceil(chunk.length / 8);
+    } else if (first >= 48 && first <= 57) {
+      tokens += Math.ceil(chunk.length / 3);
+    } else if (/[A-Za-z]/.test(chunk[0])) {
+      tokens += Math.ceil(chunk.length / 4);
+    } else {
+      tokens += 1;
+    }
+  }
+
+  return tokens;
+}
+
+export function formatTokenCount(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+}
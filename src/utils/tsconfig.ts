@@ -0,0 +1,150 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import JSON5 from "json5";
+import { ResolvedTSConfig, TSConfig } from "../types";
+import { fileExists } from "./fsUtils";
+
+const CONFIG_FILE_NAMES = ["tsconfig.json", "jsconfig.json"];
+
+export async function findNearestConfig(
+  filePath: string,
+  workspaceRoot: string
+): Promise<string | null> {
+  let directory = path.dirname(filePath);
+
+  while (true) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const candidate = path.join(directory, fileName);
+      if (await fileExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = path.dirname(directory);
+    if (
+      parent === directory ||
+      path.relative(workspaceRoot, directory) === ""
+    ) {
+      return null;
+    }
+    directory = parent;
+  }
+}
+
+async function resolvePackageConfig(
+  specifier: string,
+  fromDirectory: string
+): Promise<string | null> {
+  let directory = fromDirectory;
+
+  while (true) {
+    const packagePath = path.join(directory, "node_modules", specifier);
+    const candidates = [packagePath, `${packagePath}.json`];
+
+    // `"extends": "@tsconfig/node16"` points at a package, not a file
+    try {
+      const packageJson = JSON.parse(
+        await fs.readFile(path.join(packagePath, "package.json"), "utf-8")
+      );
+      if (typeof packageJson.tsconfig === "string") {
+        candidates.push(path.join(packagePath, packageJson.tsconfig));
+      }
+    } catch {
+      // Not a package root
+    }
+    candidates.push(path.join(packagePath, "tsconfig.json"));
+
+    for (const candidate of candidates) {
+      if (await fileExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+}
+
+async function resolveExtends(
+  specifier: string,
+  configDirectory: string
+): Promise<string | null> {
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+    const resolved = path.resolve(configDirectory, specifier);
+    for (const candidate of [resolved, `${resolved}.json`]) {
+      if (await fileExists(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+  return resolvePackageConfig(specifier, configDirectory);
+}
+
+async function applyConfig(
+  configPath: string,
+  resolved: ResolvedTSConfig,
+  seen: Set<string>
+): Promise<void> {
+  if (seen.has(configPath)) {
+    console.error("Circular tsconfig extends chain at", configPath);
+    return;
+  }
+  seen.add(configPath);
+
+  const config: TSConfig = JSON5.parse(await fs.readFile(configPath, "utf-8"));
+  const configDirectory = path.dirname(configPath);
+
+  // Base configs are applied first so this config's options win
+  const bases =
+    typeof config.extends === "string"
+      ? [config.extends]
+      : config.extends ?? [];
+  for (const base of bases) {
+    const basePath = await resolveExtends(base, configDirectory);
+    if (basePath) {
+      await applyConfig(basePath, resolved, seen);
+    } else {
+      console.error(`Could not resolve "extends": "${base}" in`, configPath);
+    }
+  }
+
+  const compilerOptions = config.compilerOptions ?? {};
+  if (compilerOptions.baseUrl !== undefined) {
+    resolved.baseUrl = path.resolve(configDirectory, compilerOptions.baseUrl);
+  }
+  if (compilerOptions.paths !== undefined) {
+    resolved.paths = compilerOptions.paths;
+    resolved.pathsBasePath = configDirectory;
+  }
+}
+
+export async function loadNearestConfig(
+  filePath: string,
+  workspaceRoot: string
+): Promise<ResolvedTSConfig> {
+  const configPath = await findNearestConfig(filePath, workspaceRoot);
+  const resolved: ResolvedTSConfig = {
+    configPath,
+    paths: {},
+    pathsBasePath: configPath ? path.dirname(configPath) : workspaceRoot,
+  };
+  if (!configPath) {
+    return resolved;
+  }
+
+  try {
+    await applyConfig(configPath, resolved, new Set());
+  } catch (error) {
+    console.error(`Failed to load ${configPath}:`, error);
+  }
+
+  // `paths` are relative to `baseUrl` when one is set
+  if (resolved.baseUrl) {
+    resolved.pathsBasePath = resolved.baseUrl;
+  }
+  return resolved;
+}